@@ -1,239 +1,285 @@
-// CORS headers helper
-function getCORSHeaders(): Record<string, string> {
-    return {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type, Authorization",
-        "Access-Control-Max-Age": "86400",
-    };
+import type { ServerWebSocket } from "bun";
+import { HttpError } from "./lib/errors";
+import { Router } from "./lib/router";
+import { isOriginAllowed, jsonResponse } from "./lib/http";
+import { bodyLimit, cors, errorHandler, requestLogger } from "./lib/middleware";
+import { ConfigError, loadConfig, type ServerConfig } from "./lib/config";
+import { configureLogger, logger, type Logger } from "./lib/logger";
+import { createChatProviderRegistry } from "./providers/chat";
+import { createTranscriptionProvider } from "./providers/transcription";
+import { createClothingRecognizer } from "./providers/recognition";
+import { createWeatherProvider } from "./providers/weather";
+import { closeDatabase, openDatabase } from "./lib/db";
+import { HealthChecks } from "./lib/health";
+import { GracefulShutdown } from "./lib/shutdown";
+import { SessionStore } from "./services/sessions";
+import { PresenceTracker } from "./services/presence";
+import { DEFAULT_ROOM, isValidRoomName, normalizeRoomName, roomTopic } from "./services/rooms";
+import { AuthService } from "./services/auth";
+import { WeatherService } from "./services/weather";
+import { WardrobeStore } from "./services/wardrobe";
+import { createOutfitTool, OutfitRecommender } from "./services/recommendations";
+import { PreferencesStore } from "./services/preferences";
+import { ServerMetrics } from "./services/metrics";
+import { WaveformService } from "./services/waveform";
+import { registerChatRoutes, type ChatRequestPreparer } from "./routes/chat";
+import { registerTranscribeRoutes } from "./routes/transcribe";
+import { registerImageRoutes } from "./routes/image";
+import { registerVoiceRoutes } from "./routes/voice";
+import { registerSessionRoutes } from "./routes/sessions";
+import { registerAuthRoutes } from "./routes/auth";
+import { registerRoomRoutes } from "./routes/rooms";
+import { registerWeatherRoutes } from "./routes/weather";
+import { registerWardrobeRoutes } from "./routes/wardrobe";
+import { registerOutfitRoutes } from "./routes/outfits";
+import { registerPreferencesRoutes } from "./routes/preferences";
+
+// Refuse to start on an invalid configuration, listing everything that is wrong with it
+let config: ServerConfig;
+try {
+    config = await loadConfig();
+} catch (error) {
+    if (!(error instanceof ConfigError)) {
+        throw error;
+    }
+    logger.error(error.message, { problems: error.problems });
+    process.exit(1);
 }
+configureLogger({ level: config.logging.level });
 
-// Mock AI response generator (replace with actual AI service)
-function generateAIResponse(_messages: ChatMessage[]): ChatResponse {
-    const responses = [
-        "That's a really interesting point! Let me think about that for a moment...",
-        "I understand what you're asking. Here's my perspective on that:",
-        "Great question! Based on what you've shared, I think...",
-        "That reminds me of something important we should consider:",
-        "Let me help you with that! Here's what I would suggest:",
-    ];
-
-    const randomResponse = responses[Math.floor(Math.random() * responses.length)] as string;
-    return {
-        role: "assistant",
-        content: randomResponse,
-    };
+const metrics = new ServerMetrics();
+
+const chatProviders = createChatProviderRegistry(Bun.env, config.providers.chatDefaultModel);
+if (config.providers.chatDefaultModel && !chatProviders.models().includes(config.providers.chatDefaultModel)) {
+    const error = new ConfigError([
+        `CHAT_DEFAULT_MODEL: "${config.providers.chatDefaultModel}" is not a registered model (${chatProviders.models().join(", ")})`,
+    ]);
+    logger.error(error.message, { problems: error.problems });
+    process.exit(1);
 }
 
-// Mock transcription service (replace with actual service like OpenAI Whisper)
-async function transcribeAudio(_audioFile: File): Promise<string> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 1000));
+metrics.instrumentChat(chatProviders);
 
-    const mockTranscriptions = [
-        "Hello, this is a test transcription of the audio file.",
-        "Can you hear me clearly? I'm testing the audio transcription feature.",
-        "This is another example of what a transcribed audio message might look like.",
-        "The weather is really nice today, don't you think?",
-        "I'm excited to try out this new chat application with voice features.",
-    ];
+const transcriptionProvider = metrics.transcription(createTranscriptionProvider(config.providers.transcription));
 
-    return mockTranscriptions[Math.floor(Math.random() * mockTranscriptions.length)] as string;
-}
+const waveforms = new WaveformService({ peaks: config.waveform.peaks, ffmpegPath: config.waveform.ffmpegPath });
 
-// Validate audio file
-function validateAudioFile(file: File): { valid: boolean; error?: string } {
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    const allowedTypes = ["audio/webm", "audio/mp4", "audio/wav", "audio/mpeg"];
+const clothingRecognizer = metrics.recognizer(createClothingRecognizer(config.providers.recognizer));
 
-    if (file.size > maxSize) {
-        return { valid: false, error: "File size exceeds 5MB limit" };
+const weather = new WeatherService(metrics.weather(createWeatherProvider(Bun.env, config.providers.weather)), {
+    ttlMs: config.weather.cacheTtlMs,
+});
+const defaultWeatherLocation = config.weather.defaultLocation;
+
+const db = openDatabase(config.storage.databasePath);
+const sessionStore = new SessionStore(db);
+const auth = new AuthService(db, Bun.env.AUTH_SECRET);
+const wardrobeStore = new WardrobeStore(db);
+const preferencesStore = new PreferencesStore(db);
+const recommender = new OutfitRecommender(wardrobeStore, weather, defaultWeatherLocation);
+
+// Readiness probes; chat and storage are critical, while the server is still useful without
+// transcription or weather. Weather goes through the cache, so probes don't spend upstream quota.
+const health = new HealthChecks()
+    .register("database", () => sessionStore.ping())
+    .register("chat", signal => chatProviders.resolve().provider.check?.(signal), { timeoutMs: 5000 })
+    .register("transcription", signal => transcriptionProvider.check?.(signal), { timeoutMs: 5000, critical: false })
+    .register("weather", () => weather.get(defaultWeatherLocation.latitude, defaultWeatherLocation.longitude), {
+        timeoutMs: 5000,
+        critical: false,
+    });
+if (config.waveform.ffmpegPath) {
+    health.register("waveform", () => waveforms.check(), { critical: false });
+}
+const startedAt = Date.now();
+
+// Signed-in users' chat requests carry their saved preferences (over whatever the client sent)
+// and offer the model an outfit tool for their wardrobe
+const prepareChat: ChatRequestPreparer = (req, request) => {
+    const user = auth.authenticate(req);
+    if (!user) {
+        return { request, tools: [] };
     }
 
-    if (!allowedTypes.includes(file.type)) {
-        console.log(file.type);
+    const saved = preferencesStore.get(user.id);
+    const context = saved.updatedAt ? { ...request.context, preferences: saved.preferences } : request.context;
+    return {
+        request: { ...request, context },
+        tools: [createOutfitTool(recommender, user.id, context)],
+    };
+};
 
-        return { valid: false, error: `Unsupported audio format. Allowed: ${allowedTypes.join(", ")}` };
-    }
+const presence = new PresenceTracker();
 
-    return { valid: true };
+// Open WebSocket connections, so a shutdown can warn and close each one
+const connections = new Set<ServerWebSocket<WebSocketData>>();
+
+// Snapshot of everyone currently in a room
+function userListMessage(room: string): WebSocketMessage {
+    return {
+        type: "user_list",
+        room,
+        users: presence.users(room),
+        timestamp: Date.now(),
+    };
 }
 
-// Extract username from request (from query params, headers, etc.)
-function extractUsername(req: Request): string {
-    const url = new URL(req.url);
-    const username = url.searchParams.get("username") ??
-        req.headers.get("x-username") ??
-        `User${Math.floor(Math.random() * 1000)}`;
-    return username;
+// System notice sent to a single connection
+function systemMessage(content: string, room?: string): WebSocketMessage {
+    return {
+        type: "chat",
+        content,
+        username: "System",
+        room,
+        timestamp: Date.now(),
+    };
 }
 
-// Chat endpoint handler
-async function handleChatRequest(req: Request): Promise<Response> {
-    try {
-        const body = await req.json() as ChatRequest;
-
-        // Validate request
-        if (!body.messages || !Array.isArray(body.messages)) {
-            return new Response(
-                JSON.stringify({ error: "Messages array is required" }),
-                {
-                    status: 400,
-                    headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-                }
-            );
-        }
+// Log lines for one WebSocket connection carry its id, its user and the id of the upgrade request
+function connectionLog(ws: ServerWebSocket<WebSocketData>): Logger {
+    return logger.child({ requestId: ws.data.requestId, connectionId: ws.data.connectionId, userId: ws.data.userId });
+}
 
-        // Generate AI response (replace with actual AI service)
-        const response = generateAIResponse(body.messages);
+// Subscribe a connection to a room, announce it and send the room's presence snapshot
+function joinRoom(ws: ServerWebSocket<WebSocketData>, room: string): void {
+    if (ws.data.rooms.has(room)) {
+        ws.send(JSON.stringify(userListMessage(room)));
+        return;
+    }
 
-        return new Response(
-            JSON.stringify(response),
-            {
-                status: 200,
-                headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-            }
-        );
-    } catch (error) {
-        console.error("Chat endpoint error:", error);
-        return new Response(
-            JSON.stringify({ error: "Internal server error" }),
-            {
-                status: 500,
-                headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-            }
-        );
+    ws.data.rooms.add(room);
+    ws.subscribe(roomTopic(room));
+
+    // Announce user joined, unless they were already in the room from another tab
+    if (presence.add(room, ws.data)) {
+        const joinMessage: WebSocketMessage = {
+            type: "join",
+            username: ws.data.username,
+            content: `${ws.data.username} joined ${room}`,
+            room,
+            timestamp: Date.now(),
+        };
+
+        ws.publish(roomTopic(room), JSON.stringify(joinMessage));
+        metrics.published(roomTopic(room), joinMessage.type);
     }
-}
 
-// Transcribe endpoint handler
-async function handleTranscribeRequest(req: Request): Promise<Response> {
-    try {
-        const url = new URL(req.url)
-        const messageId = url.searchParams.get("messageId")
-        const arrayBuffer = await req.arrayBuffer();
-        const audioBuffer = Buffer.from(arrayBuffer);
-
-
-        if (!audioFile) {
-            return new Response(
-                JSON.stringify({
-                    error: "No audio file provided",
-                    success: false
-                } as TranscribeResponse),
-                {
-                    status: 400,
-                    headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-                }
-            );
-        }
+    ws.send(JSON.stringify(userListMessage(room)));
+}
 
+// Unsubscribe a connection from a room, announcing the leave once the user's last connection is gone
+function leaveRoom(ws: ServerWebSocket<WebSocketData>, room: string): void {
+    if (!ws.data.rooms.delete(room)) {
+        return;
+    }
 
+    ws.unsubscribe(roomTopic(room));
 
-        try {
-            // Transcribe audio (replace with actual service)
-            const transcription = await transcribeAudio(audioFile);
+    // Nobody is left to tell while the server shuts down
+    if (presence.remove(room, ws.data) && !shutdown.draining) {
+        const leaveMessage: WebSocketMessage = {
+            type: "leave",
+            username: ws.data.username,
+            content: `${ws.data.username} left ${room}`,
+            room,
+            timestamp: Date.now(),
+        };
 
-            return new Response(
-                JSON.stringify({
-                    transcription,
-                    success: true
-                } as TranscribeResponse),
-                {
-                    status: 200,
-                    headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-                }
-            );
-        } catch (transcriptionError) {
-            console.error("Transcription error:", transcriptionError);
-            return new Response(
-                JSON.stringify({
-                    error: "Service temporarily unavailable",
-                    success: false
-                } as TranscribeResponse),
-                {
-                    status: 503,
-                    headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-                }
-            );
-        }
-    } catch (error) {
-        console.error("Transcribe endpoint error:", error);
-        return new Response(
-            JSON.stringify({
-                error: "Internal server error",
-                success: false
-            } as TranscribeResponse),
-            {
-                status: 500,
-                headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-            }
-        );
+        server.publish(roomTopic(room), JSON.stringify(leaveMessage));
+        metrics.published(roomTopic(room), leaveMessage.type);
     }
 }
 
-// Handle preflight OPTIONS requests
-function handleOptionsRequest(): Response {
-    return new Response(null, {
-        status: 200,
-        headers: getCORSHeaders(),
-    });
-}
+const router = new Router()
+    .use(requestLogger(req => auth.authenticatedUser(req)?.id))
+    .use(metrics.middleware())
+    .use(cors(config.corsOrigins))
+    .use(errorHandler())
+    .use(bodyLimit(config.limits.bodyBytes));
+
+registerChatRoutes(router, chatProviders, prepareChat);
+registerTranscribeRoutes(router, transcriptionProvider, config.limits.audioBytes, waveforms);
+registerImageRoutes(router, clothingRecognizer, config.limits.imageBytes);
+registerVoiceRoutes(router, transcriptionProvider, chatProviders, sessionStore, auth, prepareChat, config.limits.audioBytes, waveforms);
+registerSessionRoutes(router, sessionStore, auth);
+registerAuthRoutes(router, auth);
+registerRoomRoutes(router, presence);
+registerWeatherRoutes(router, weather, defaultWeatherLocation);
+registerWardrobeRoutes(router, wardrobeStore, auth);
+registerOutfitRoutes(router, recommender, auth);
+registerPreferencesRoutes(router, preferencesStore, auth);
+
+// WebSocket upgrade for /chat
+router.get("/chat", (req, { url, server, requestId }) => {
+    if (shutdown.draining) {
+        throw new HttpError(503, "shutting_down", "Server is shutting down");
+    }
 
-// Start the unified server
-const server = Bun.serve({
-    port: 3001,
+    // CORS does not cover WebSockets, so pages from other origins are turned away here
+    if (!isOriginAllowed(req.headers.get("origin"), config.corsOrigins)) {
+        throw new HttpError(403, "origin_not_allowed", "Origin not allowed");
+    }
 
-    fetch(req: Request, server) {
-        const url = new URL(req.url);
-        const pathname = url.pathname;
+    // Identity comes from a verified session token, never from client-supplied names
+    const user = auth.authenticate(req, { allowQueryToken: true });
+    if (!user) {
+        throw new HttpError(401, "unauthenticated", "Not signed in");
+    }
 
-        // Handle CORS preflight requests
-        if (req.method === "OPTIONS") {
-            return handleOptionsRequest();
-        }
+    const room = normalizeRoomName(url.searchParams.get("room") ?? DEFAULT_ROOM);
+    if (!isValidRoomName(room)) {
+        throw new HttpError(400, "invalid_room", "Invalid room name");
+    }
 
-        // WebSocket upgrade for /chat route
-        if (pathname === "/chat") {
-            const username = extractUsername(req);
-            const success = server.upgrade(req, {
-                data: {
-                    username,
-                    joinedAt: Date.now(),
-                    userId: crypto.randomUUID(),
-                } as WebSocketData,
-            });
-
-            return success
-                ? undefined
-                : new Response("WebSocket upgrade failed", { status: 400 });
-        }
+    const success = server.upgrade(req, {
+        data: {
+            username: user.username,
+            joinedAt: Date.now(),
+            userId: user.id,
+            connectionId: crypto.randomUUID(),
+            requestId,
+            room,
+            rooms: new Set<string>(),
+        } as WebSocketData,
+    });
 
-        // REST API endpoints
-        if (pathname === "/api/chat" && req.method === "POST") {
-            return handleChatRequest(req);
-        }
+    if (!success) {
+        throw new HttpError(400, "upgrade_failed", "WebSocket upgrade failed");
+    }
+    return undefined;
+});
 
-        if (pathname === "/api/transcribe" && req.method === "POST") {
-            return handleTranscribeRequest(req);
-        }
+// Liveness: the process is up and serving; touches no dependency, so restarts are not triggered by an upstream outage
+router.get("/health/live", () => jsonResponse({
+    status: "alive",
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    timestamp: new Date().toISOString(),
+}));
+
+// Readiness: every dependency probed; 503 when a critical one fails or the server is shutting down
+const readiness = async () => {
+    if (shutdown.draining) {
+        throw new HttpError(503, "shutting_down", "Server is shutting down");
+    }
+    const report = await health.run();
+    return jsonResponse(report, report.status === "unavailable" ? 503 : 200);
+};
+router.get("/health/ready", readiness);
+router.get("/health", readiness);
+
+// Prometheus scrape target, only when enabled since it reveals traffic and room names
+if (config.metrics.enabled) {
+    router.get("/metrics", () => metrics.registry.response());
+}
 
-        // Health check endpoint
-        if (pathname === "/health") {
-            return new Response(
-                JSON.stringify({ status: "healthy", timestamp: new Date().toISOString() }),
-                {
-                    status: 200,
-                    headers: { "Content-Type": "application/json", ...getCORSHeaders() }
-                }
-            );
-        }
+// Start the unified server
+const server = Bun.serve({
+    port: config.port,
+    // Bun's own cap, above which it refuses a body before any route sees it; bodyLimit enforces the per-route limits
+    maxRequestBodySize: router.maxBodyBytes(config.limits.bodyBytes),
 
-        // Default 404 response
-        return new Response("Not Found", {
-            status: 404,
-            headers: getCORSHeaders(),
-        });
+    fetch(req, server) {
+        return router.handle(req, server);
     },
 
     // WebSocket configuration
@@ -243,30 +289,14 @@ const server = Bun.serve({
 
         // Connection opened
         open(ws) {
-            console.log(`${ws.data.username} connected to WebSocket`);
-
-            // Subscribe to the main chat channel
-            ws.subscribe("main-chat");
-
-            // Announce user joined
-            const joinMessage: WebSocketMessage = {
-                type: "join",
-                username: ws.data.username,
-                content: `${ws.data.username} joined the chat`,
-                timestamp: Date.now(),
-            };
-
-            server.publish("main-chat", JSON.stringify(joinMessage));
+            connectionLog(ws).info("websocket connected", { room: ws.data.room });
+            metrics.websocketOpened();
+            connections.add(ws);
 
             // Send welcome message to the user
-            const welcomeMessage: WebSocketMessage = {
-                type: "chat",
-                content: `Welcome to the chat, ${ws.data.username}!`,
-                username: "System",
-                timestamp: Date.now(),
-            };
+            ws.send(JSON.stringify(systemMessage(`Welcome to the chat, ${ws.data.username}!`, ws.data.room)));
 
-            ws.send(JSON.stringify(welcomeMessage));
+            joinRoom(ws, ws.data.room);
         },
 
         // Message received
@@ -274,63 +304,99 @@ const server = Bun.serve({
             try {
                 const data = JSON.parse(message.toString()) as WebSocketMessage;
 
-                console.log(`Message from ${ws.data.username}:`, data);
+                const room = normalizeRoomName(data.room ?? ws.data.room);
+                const log = connectionLog(ws);
+                log.info("websocket message", { type: data.type, room, content: log.redact(data.content) });
+
+                switch (data.type) {
+                    case "join_room":
+                        if (!isValidRoomName(room)) {
+                            ws.send(JSON.stringify(systemMessage("Error: Invalid room name")));
+                        } else {
+                            joinRoom(ws, room);
+                        }
+                        return;
+
+                    case "leave_room":
+                        leaveRoom(ws, room);
+                        return;
+
+                    // On-demand presence snapshot
+                    case "user_list":
+                        ws.send(JSON.stringify(userListMessage(room)));
+                        return;
+                }
+
+                if (!ws.data.rooms.has(room)) {
+                    ws.send(JSON.stringify(systemMessage(`Error: You are not in room ${room}`, room)));
+                    return;
+                }
 
                 // Create chat message to broadcast
                 const chatMessage: WebSocketMessage = {
                     type: "chat",
                     content: data.content,
                     username: ws.data.username,
+                    room,
                     timestamp: Date.now(),
                 };
 
-                // Broadcast to all subscribers (excluding sender)
-                server.publish("main-chat", JSON.stringify(chatMessage));
+                // Broadcast to everyone in the room
+                server.publish(roomTopic(room), JSON.stringify(chatMessage));
+                metrics.published(roomTopic(room), chatMessage.type);
 
             } catch (error) {
-                console.error("Error parsing WebSocket message:", error);
+                connectionLog(ws).warn("invalid websocket message", { error, bytes: message.length });
 
-                const errorMessage: WebSocketMessage = {
-                    type: "chat",
-                    content: "Error: Invalid message format",
-                    username: "System",
-                    timestamp: Date.now(),
-                };
-
-                ws.send(JSON.stringify(errorMessage));
+                ws.send(JSON.stringify(systemMessage("Error: Invalid message format")));
             }
         },
 
         // Connection closed
         close(ws, code, reason) {
-            console.log(`${ws.data.username} disconnected (${code}: ${reason})`);
-
-            // Unsubscribe from chat
-            ws.unsubscribe("main-chat");
+            connectionLog(ws).info("websocket disconnected", { code, reason, durationMs: Date.now() - ws.data.joinedAt });
+            metrics.websocketClosed();
+            connections.delete(ws);
 
-            // Announce user left
-            const leaveMessage: WebSocketMessage = {
-                type: "leave",
-                username: ws.data.username,
-                content: `${ws.data.username} left the chat`,
-                timestamp: Date.now(),
-            };
-
-            server.publish("main-chat", JSON.stringify(leaveMessage));
+            for (const room of [...ws.data.rooms]) {
+                leaveRoom(ws, room);
+            }
         },
 
 
 
         // WebSocket configuration
-        idleTimeout: 120, // 2 minutes
-        maxPayloadLength: 1024 * 1024, // 1MB
+        idleTimeout: config.limits.websocketIdleTimeoutSeconds,
+        maxPayloadLength: config.limits.websocketPayloadBytes,
         perMessageDeflate: true, // Enable compression
     },
 });
 
-console.log(`🚀 Server running on http://localhost:${server.port}`);
-console.log(`📡 WebSocket available at ws://localhost:${server.port}/chat`);
-console.log(`🔥 API endpoints:`);
-console.log(`   POST http://localhost:${server.port}/api/chat`);
-console.log(`   POST http://localhost:${server.port}/api/transcribe`);
-console.log(`   GET  http://localhost:${server.port}/health`);
+// On SIGTERM/SIGINT: refuse new connections, send every WebSocket a server_shutdown notice and
+// close it, give in-flight requests (streamed chat replies, transcriptions) until the deadline,
+// then checkpoint the database and exit
+const shutdown = new GracefulShutdown({
+    drain: () => server.stop(),
+    announce() {
+        for (const ws of connections) {
+            const notice: WebSocketMessage = {
+                type: "server_shutdown",
+                content: "Server is restarting, please reconnect shortly",
+                // Spread out so clients don't all reconnect at the same moment
+                reconnectAfterMs: 1000 + Math.floor(Math.random() * 4000),
+                timestamp: Date.now(),
+            };
+            ws.send(JSON.stringify(notice));
+            ws.close(1001, "Server shutting down");
+        }
+    },
+    force: () => server.stop(true),
+    flush: () => closeDatabase(db),
+}, { deadlineMs: config.shutdown.deadlineMs, log: logger });
+shutdown.listen();
+
+logger.info("server started", {
+    url: `http://localhost:${server.port}`,
+    websocket: `ws://localhost:${server.port}/chat`,
+    logLevel: config.logging.level,
+});
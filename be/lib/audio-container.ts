@@ -0,0 +1,29 @@
+// Shared by the WAV, Matroska/WebM, MP4 and MPEG audio parsers, which each report an AudioInfo
+
+// Decoded audio for waveforms: interleaved samples from -1 to 1
+export interface PcmAudio {
+    sampleRate: number;
+    channels: number;
+    samples: Float32Array;
+}
+
+// The file is corrupt, truncated before the parts that matter, or holds no audio
+export class AudioProbeError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "AudioProbeError";
+    }
+}
+
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export function dataView(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// Durations are reported to the millisecond
+export function roundDuration(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,147 @@
+import { AudioProbeError } from "./audio-container";
+import { probeMatroska } from "./matroska";
+import { probeMp4 } from "./mp4";
+import { isAdts, probeMpegAudio } from "./mpeg-audio";
+import { probeWav } from "./wav";
+
+// Audio upload validation helpers
+
+export const ALLOWED_AUDIO_TYPES = ["audio/webm", "audio/mp4", "audio/wav", "audio/mpeg"];
+export const MAX_AUDIO_SIZE = 5 * 1024 * 1024; // 5MB, unless configured otherwise
+
+// Strip parameters such as ";codecs=opus" that MediaRecorder appends to the MIME type
+export function normalizeMimeType(type: string): string {
+    return (type.split(";")[0] ?? "").trim().toLowerCase();
+}
+
+// Size limit as shown in error messages, e.g. "5MB" or "512KB"
+export function formatSizeLimit(bytes: number): string {
+    const megabytes = bytes / (1024 * 1024);
+    return megabytes >= 1 ? `${Math.round(megabytes * 10) / 10}MB` : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+// Validate audio file
+export function validateAudioFile(file: File, maxBytes = MAX_AUDIO_SIZE): { valid: boolean; error?: string } {
+    const mimeType = normalizeMimeType(file.type);
+
+    if (file.size === 0) {
+        return { valid: false, error: "Audio file is empty" };
+    }
+
+    if (file.size > maxBytes) {
+        return { valid: false, error: `File size exceeds ${formatSizeLimit(maxBytes)} limit` };
+    }
+
+    if (!ALLOWED_AUDIO_TYPES.includes(mimeType)) {
+        return { valid: false, error: `Unsupported audio format. Allowed: ${ALLOWED_AUDIO_TYPES.join(", ")}` };
+    }
+
+    return { valid: true };
+}
+
+function hasAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+    if (bytes.length < offset + text.length) {
+        return false;
+    }
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[offset + i] !== text.charCodeAt(i)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Detect the audio container from its magic bytes, returning a MIME type (one of
+// ALLOWED_AUDIO_TYPES, or audio/aac for raw ADTS) or null
+export function sniffAudioMimeType(bytes: Uint8Array): string | null {
+    // EBML header (WebM / Matroska)
+    if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+        return "audio/webm";
+    }
+
+    // RIFF....WAVE
+    if (hasAscii(bytes, 0, "RIFF") && hasAscii(bytes, 8, "WAVE")) {
+        return "audio/wav";
+    }
+
+    // ISO base media file (....ftyp)
+    if (hasAscii(bytes, 4, "ftyp")) {
+        return "audio/mp4";
+    }
+
+    // MP3 with ID3 tag, or a bare MPEG audio frame sync (11 set bits); ADTS AAC shares the sync
+    if (hasAscii(bytes, 0, "ID3")) {
+        return "audio/mpeg";
+    }
+    if (isAdts(bytes)) {
+        return "audio/aac";
+    }
+    if (bytes[0] === 0xff && bytes[1] !== undefined && (bytes[1] & 0xe0) === 0xe0) {
+        return "audio/mpeg";
+    }
+
+    return null;
+}
+
+// Parse the container for its codec, duration and format; throws AudioProbeError when the
+// file is not one of ALLOWED_AUDIO_TYPES, is corrupt, or holds no audio
+export function probeAudio(bytes: Uint8Array): AudioInfo {
+    try {
+        switch (sniffAudioMimeType(bytes)) {
+            case "audio/wav":
+                return probeWav(bytes);
+            case "audio/webm":
+                return probeMatroska(bytes);
+            case "audio/mp4":
+                return probeMp4(bytes);
+            case "audio/mpeg":
+                return probeMpegAudio(bytes);
+            default:
+                throw new AudioProbeError("Unrecognized audio file contents");
+        }
+    } catch (error) {
+        // Reads past the end of a box or chunk that claims more bytes than the file has
+        if (error instanceof RangeError) {
+            throw new AudioProbeError("Audio file is truncated", { cause: error });
+        }
+        throw error;
+    }
+}
+
+// Check that the file really is audio of its declared MIME type, returning what the container says about it
+export async function inspectAudioFile(file: File): Promise<{ valid: boolean; error?: string; info?: AudioInfo }> {
+    const declared = normalizeMimeType(file.type);
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const detected = sniffAudioMimeType(bytes.subarray(0, 16));
+
+    if (!detected) {
+        return { valid: false, error: "Unrecognized audio file contents" };
+    }
+
+    if (detected !== declared) {
+        return { valid: false, error: `File contents (${detected}) do not match declared type ${declared}` };
+    }
+
+    let info: AudioInfo;
+    try {
+        info = probeAudio(bytes);
+    } catch (error) {
+        if (!(error instanceof AudioProbeError)) {
+            throw error;
+        }
+        return { valid: false, error: `Invalid ${declared} file: ${error.message}` };
+    }
+
+    // e.g. a Matroska file declared as WebM: same magic bytes, different container
+    if (info.mimeType !== declared) {
+        return { valid: false, error: `File contents (${info.mimeType}) do not match declared type ${declared}` };
+    }
+
+    return { valid: true, info };
+}
+
+// Run the size/type checks and the container check together
+export async function checkAudioFile(file: File, maxBytes = MAX_AUDIO_SIZE): Promise<{ valid: boolean; error?: string; info?: AudioInfo }> {
+    const validation = validateAudioFile(file, maxBytes);
+    return validation.valid ? inspectAudioFile(file) : validation;
+}
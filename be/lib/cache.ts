@@ -0,0 +1,38 @@
+// In-memory cache whose entries expire `ttlMs` after being set. When full, the oldest entry is evicted.
+export class TtlCache<K, V> {
+    private entries = new Map<K, { value: V; expiresAt: number }>();
+
+    constructor(private readonly ttlMs: number, private readonly maxEntries = 1000) {}
+
+    get(key: K): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: K, value: V): void {
+        // Re-inserting moves the key to the end, keeping the map in insertion (age) order
+        this.entries.delete(key);
+        if (this.entries.size >= this.maxEntries) {
+            const oldest = this.entries.keys().next();
+            if (!oldest.done) {
+                this.entries.delete(oldest.value);
+            }
+        }
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    delete(key: K): boolean {
+        return this.entries.delete(key);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
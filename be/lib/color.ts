@@ -0,0 +1,76 @@
+// Color space helpers: sRGB <-> CIE Lab (D65) and hex strings
+
+export type Lab = readonly [l: number, a: number, b: number];
+export type Rgb = readonly [r: number, g: number, b: number];
+
+// D65 reference white
+const WHITE_X = 0.95047;
+const WHITE_Y = 1;
+const WHITE_Z = 1.08883;
+
+// sRGB channel (0-255) to linear light
+function toLinear(value: number): number {
+    const c = value / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(value: number): number {
+    const c = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+    return Math.min(255, Math.max(0, Math.round(c * 255)));
+}
+
+function labF(t: number): number {
+    return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+    return t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27);
+}
+
+export function rgbToLab(r: number, g: number, b: number): Lab {
+    const lr = toLinear(r);
+    const lg = toLinear(g);
+    const lb = toLinear(b);
+
+    const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X;
+    const y = (0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y;
+    const z = (0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z;
+
+    const fx = labF(x);
+    const fy = labF(y);
+    const fz = labF(z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToRgb([l, a, b]: Lab): Rgb {
+    const fy = (l + 16) / 116;
+    const x = labFInverse(fy + a / 500) * WHITE_X;
+    const y = labFInverse(fy) * WHITE_Y;
+    const z = labFInverse(fy - b / 200) * WHITE_Z;
+
+    return [
+        fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+        fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+        fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+    ];
+}
+
+// CIE76 color difference; about 2.3 is just noticeable
+export function deltaE(first: Lab, second: Lab): number {
+    return Math.hypot(first[0] - second[0], first[1] - second[1], first[2] - second[2]);
+}
+
+export function rgbToHex([r, g, b]: Rgb): string {
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Parse "#rrggbb" or "#rgb"; null when malformed
+export function hexToRgb(hex: string): Rgb | null {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+    if (!match) {
+        return null;
+    }
+    const digits = match[1]!.length === 3 ? [...match[1]!].map(digit => digit + digit).join("") : match[1]!;
+    const channel = (start: number) => parseInt(digits.slice(start, start + 2), 16);
+    return [channel(0), channel(2), channel(4)];
+}
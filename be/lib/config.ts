@@ -0,0 +1,363 @@
+import { CLOTHING_RECOGNIZERS, type ClothingRecognizerSettings } from "../providers/recognition";
+import { TRANSCRIPTION_PROVIDERS, usesModel, WHISPER_CPP_ARGS, type TranscriptionSettings } from "../providers/transcription";
+import { WEATHER_PROVIDERS, type WeatherProviderName } from "../providers/weather";
+import { MAX_AUDIO_SIZE } from "./audio";
+import { MAX_IMAGE_SIZE } from "./image";
+import { LOG_LEVELS, type LogLevel } from "./logger";
+import { DEFAULT_PEAK_COUNT } from "./waveform";
+
+// Server configuration, read once at startup: built-in defaults, overridden by an optional
+// JSON or TOML file (CONFIG_FILE), overridden in turn by environment variables. Every problem
+// is collected and reported together, so a bad deployment stops before it serves anything.
+// Chat and weather provider settings (API keys, upstream URLs) stay in the providers' own variables.
+
+export interface ServerConfig {
+    port: number;
+    corsOrigins: string[];                      // Allowed browser origins; ["*"] allows any
+    limits: {
+        bodyBytes: number;                      // Default request body limit; upload routes add their own
+        audioBytes: number;                     // Voice messages and transcription uploads
+        imageBytes: number;                     // Clothing photos
+        websocketPayloadBytes: number;
+        websocketIdleTimeoutSeconds: number;
+    };
+    providers: {
+        chatDefaultModel?: string;              // Otherwise the first registered model ("local")
+        transcription: TranscriptionSettings;   // The provider and its options
+        recognizer: ClothingRecognizerSettings;
+        weather: WeatherProviderName;
+    };
+    storage: {
+        databasePath: string;
+    };
+    weather: {
+        cacheTtlMs: number;
+        defaultLocation: { latitude: number; longitude: number };   // When the client sends none
+    };
+    logging: {
+        level: LogLevel;                        // "debug" also logs message contents
+    };
+    metrics: {
+        enabled: boolean;                       // Serve GET /metrics
+    };
+    shutdown: {
+        deadlineMs: number;                     // How long in-flight requests get to finish on SIGTERM/SIGINT
+    };
+    waveform: {
+        peaks: number;                          // Values per voice message waveform
+        ffmpegPath?: string;                    // Decodes formats other than PCM WAV; without it they get no waveform
+    };
+}
+
+// One setting: its key in the config file and the environment variable that overrides it
+interface Setting {
+    key: string;                                // Dotted path, e.g. "limits.audioBytes"
+    env: string;
+}
+
+const MEGABYTE = 1024 * 1024;
+
+export class ConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(problems: string[], source?: string) {
+        super(`Invalid configuration${source ? ` (${source})` : ""}:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+        this.name = "ConfigError";
+        this.problems = problems;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// { limits: { audioBytes: 1 } } -> Map { "limits.audioBytes" => 1 }
+function flatten(value: Record<string, unknown>, prefix = "", into = new Map<string, unknown>()): Map<string, unknown> {
+    for (const [key, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (isPlainObject(child)) {
+            flatten(child, path, into);
+        } else {
+            into.set(path, child);
+        }
+    }
+    return into;
+}
+
+// Parse the config file by extension; a missing or malformed file is a problem like any other
+async function readConfigFile(path: string): Promise<Record<string, unknown>> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+        throw new ConfigError([`CONFIG_FILE: ${path} does not exist`]);
+    }
+
+    const text = await file.text();
+    let parsed: unknown;
+    try {
+        parsed = path.endsWith(".toml") ? Bun.TOML.parse(text) : JSON.parse(text);
+    } catch (error) {
+        throw new ConfigError([`${path} could not be parsed: ${error instanceof Error ? error.message : error}`]);
+    }
+    if (!isPlainObject(parsed)) {
+        throw new ConfigError([`${path} must contain an object of settings`]);
+    }
+    return parsed;
+}
+
+// Looks settings up in the environment, then the file, recording anything invalid
+class SettingsReader {
+    readonly problems: string[] = [];
+    private readonly used = new Set<string>();
+
+    constructor(
+        private readonly file: Map<string, unknown>,
+        private readonly env: Record<string, string | undefined>,
+    ) {}
+
+    // The raw value, where it came from (for messages), or undefined when unset
+    private lookup({ key, env }: Setting): { value: unknown; from: string } | undefined {
+        this.used.add(key);
+        const fromEnv = this.env[env];
+        if (fromEnv !== undefined && fromEnv !== "") {
+            return { value: fromEnv, from: env };
+        }
+        return this.file.has(key) ? { value: this.file.get(key), from: key } : undefined;
+    }
+
+    private problem(from: string, expected: string, value: unknown): void {
+        this.problems.push(`${from}: expected ${expected}, got ${JSON.stringify(value)}`);
+    }
+
+    number(setting: Setting, fallback: number, { min, max, integer = true }: { min: number; max: number; integer?: boolean }): number {
+        const found = this.lookup(setting);
+        if (!found) {
+            return fallback;
+        }
+
+        const value = typeof found.value === "string" && found.value.trim() !== "" ? Number(found.value) : found.value;
+        if (typeof value !== "number" || !Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min || value > max) {
+            this.problem(found.from, `${integer ? "an integer" : "a number"} from ${min} to ${max}`, found.value);
+            return fallback;
+        }
+        return value;
+    }
+
+    string(setting: Setting): string | undefined;
+    string(setting: Setting, fallback: string): string;
+    string(setting: Setting, fallback?: string): string | undefined {
+        const found = this.lookup(setting);
+        if (!found) {
+            return fallback;
+        }
+        if (typeof found.value !== "string" || !found.value.trim()) {
+            this.problem(found.from, "a non-empty string", found.value);
+            return fallback;
+        }
+        return found.value.trim();
+    }
+
+    oneOf<T extends string>(setting: Setting, options: readonly T[], fallback: T): T {
+        const found = this.lookup(setting);
+        if (!found) {
+            return fallback;
+        }
+        if (typeof found.value !== "string" || !(options as readonly string[]).includes(found.value.trim())) {
+            this.problem(found.from, `one of ${options.join(", ")}`, found.value);
+            return fallback;
+        }
+        return found.value.trim() as T;
+    }
+
+    // true/false in the file; also 1/0, yes/no or on/off in the environment
+    boolean(setting: Setting, fallback: boolean): boolean {
+        const found = this.lookup(setting);
+        if (!found) {
+            return fallback;
+        }
+        if (typeof found.value === "boolean") {
+            return found.value;
+        }
+
+        const text = typeof found.value === "string" ? found.value.trim().toLowerCase() : "";
+        if (["true", "1", "yes", "on"].includes(text)) {
+            return true;
+        }
+        if (["false", "0", "no", "off"].includes(text)) {
+            return false;
+        }
+        this.problem(found.from, "true or false", found.value);
+        return fallback;
+    }
+
+    // An absolute http(s) URL, e.g. an upstream's base URL
+    url(setting: Setting): string | undefined {
+        const found = this.lookup(setting);
+        if (!found) {
+            return undefined;
+        }
+        if (typeof found.value === "string" && /^https?:$/.test(URL.parse(found.value.trim())?.protocol ?? "")) {
+            return found.value.trim();
+        }
+        this.problem(found.from, "an http or https URL", found.value);
+        return undefined;
+    }
+
+    // A setting the selected option cannot do without; one that is set but invalid was reported already
+    require<T>(value: T | undefined, setting: Setting, reason: string): T {
+        if (value === undefined && !this.lookup(setting)) {
+            this.problems.push(`${setting.env} / ${setting.key}: required ${reason}`);
+        }
+        return value as T;
+    }
+
+    // A comma-separated environment variable, or an array of strings in the file
+    list(setting: Setting, fallback: string[]): string[] {
+        const found = this.lookup(setting);
+        if (!found) {
+            return fallback;
+        }
+
+        const values = typeof found.value === "string" ? found.value.split(",") : found.value;
+        if (!Array.isArray(values) || values.length === 0 || !values.every(value => typeof value === "string" && value.trim())) {
+            this.problem(found.from, "a non-empty list of strings", found.value);
+            return fallback;
+        }
+        return values.map(value => value.trim());
+    }
+
+    // File keys no setting asked for, usually typos
+    unknownKeys(): string[] {
+        return [...this.file.keys()].filter(key => !this.used.has(key));
+    }
+}
+
+// "https://app.example.com" (scheme, host and port only) or "*"
+function isOrigin(value: string): boolean {
+    if (value === "*") {
+        return true;
+    }
+    try {
+        return new URL(value).origin === value;
+    } catch {
+        return false;
+    }
+}
+
+// Every provider's options are read, so none of them counts as an unknown file key,
+// but only the selected provider's required ones must be set
+function transcriptionSettings(settings: SettingsReader): TranscriptionSettings {
+    const provider = settings.oneOf({ key: "providers.transcription", env: "TRANSCRIPTION_PROVIDER" }, TRANSCRIPTION_PROVIDERS, "fixture");
+    const fixtureText = settings.string({ key: "transcription.fixtureText", env: "TRANSCRIPTION_FIXTURE_TEXT" });
+    const modelPath: Setting = { key: "transcription.modelPath", env: "TRANSCRIPTION_MODEL_PATH" };
+    const command = {
+        binary: settings.string({ key: "transcription.command", env: "TRANSCRIPTION_COMMAND" }, "whisper-cli"),
+        modelPath: settings.string(modelPath),
+        args: settings.string({ key: "transcription.commandArgs", env: "TRANSCRIPTION_COMMAND_ARGS" })?.split(/\s+/),
+    };
+    const openaiBaseUrl: Setting = { key: "transcription.openaiBaseUrl", env: "TRANSCRIPTION_OPENAI_BASE_URL" };
+    const openai = {
+        baseUrl: settings.url(openaiBaseUrl),
+        apiKey: settings.string({ key: "transcription.openaiApiKey", env: "TRANSCRIPTION_OPENAI_API_KEY" }),
+        model: settings.string({ key: "transcription.openaiModel", env: "TRANSCRIPTION_OPENAI_MODEL" }),
+    };
+
+    switch (provider) {
+        case "fixture":
+            return { provider, fixture: { text: fixtureText } };
+        case "command":
+            if (usesModel(command.args ?? WHISPER_CPP_ARGS)) {
+                settings.require(command.modelPath, modelPath, "when TRANSCRIPTION_PROVIDER is command and its arguments pass {model}");
+            }
+            return { provider, command };
+        case "openai":
+            return {
+                provider,
+                openai: { ...openai, baseUrl: settings.require(openai.baseUrl, openaiBaseUrl, "when TRANSCRIPTION_PROVIDER is openai") },
+            };
+    }
+}
+
+function recognizerSettings(settings: SettingsReader): ClothingRecognizerSettings {
+    const recognizer = settings.oneOf({ key: "providers.recognizer", env: "CLOTHING_RECOGNIZER" }, CLOTHING_RECOGNIZERS, "local");
+    const url: Setting = { key: "recognizer.url", env: "CLOTHING_RECOGNIZER_URL" };
+    const baseUrl = settings.url(url);
+    const apiKey = settings.string({ key: "recognizer.apiKey", env: "CLOTHING_RECOGNIZER_API_KEY" });
+    const minConfidence = settings.number(
+        { key: "recognizer.minConfidence", env: "CLOTHING_RECOGNIZER_MIN_CONFIDENCE" }, 0.2, { min: 0, max: 1, integer: false });
+
+    switch (recognizer) {
+        case "local":
+            return { recognizer };
+        case "http":
+            return {
+                recognizer,
+                http: { baseUrl: settings.require(baseUrl, url, "when CLOTHING_RECOGNIZER is http"), apiKey, minConfidence },
+            };
+    }
+}
+
+// Load and validate the configuration, throwing a ConfigError that lists every problem
+export async function loadConfig(env: Record<string, string | undefined> = Bun.env): Promise<ServerConfig> {
+    const configFile = env.CONFIG_FILE || undefined;
+    const settings = new SettingsReader(configFile ? flatten(await readConfigFile(configFile)) : new Map(), env);
+
+    const config: ServerConfig = {
+        port: settings.number({ key: "port", env: "PORT" }, 3001, { min: 0, max: 65535 }),
+        corsOrigins: settings.list({ key: "corsOrigins", env: "CORS_ORIGINS" }, ["*"]),
+        limits: {
+            bodyBytes: settings.number({ key: "limits.bodyBytes", env: "MAX_BODY_BYTES" }, MEGABYTE, { min: 1024, max: 100 * MEGABYTE }),
+            audioBytes: settings.number({ key: "limits.audioBytes", env: "MAX_AUDIO_BYTES" }, MAX_AUDIO_SIZE, { min: 1024, max: 100 * MEGABYTE }),
+            imageBytes: settings.number({ key: "limits.imageBytes", env: "MAX_IMAGE_BYTES" }, MAX_IMAGE_SIZE, { min: 1024, max: 100 * MEGABYTE }),
+            websocketPayloadBytes: settings.number(
+                { key: "limits.websocketPayloadBytes", env: "WS_MAX_PAYLOAD_BYTES" }, MEGABYTE, { min: 1024, max: 16 * MEGABYTE }),
+            websocketIdleTimeoutSeconds: settings.number(
+                { key: "limits.websocketIdleTimeoutSeconds", env: "WS_IDLE_TIMEOUT_SECONDS" }, 120, { min: 0, max: 960 }),
+        },
+        providers: {
+            chatDefaultModel: settings.string({ key: "providers.chatDefaultModel", env: "CHAT_DEFAULT_MODEL" }),
+            transcription: transcriptionSettings(settings),
+            recognizer: recognizerSettings(settings),
+            weather: settings.oneOf({ key: "providers.weather", env: "WEATHER_PROVIDER" }, WEATHER_PROVIDERS, "fixture"),
+        },
+        storage: {
+            databasePath: settings.string({ key: "storage.databasePath", env: "DATABASE_PATH" }, "data/kawaii.sqlite"),
+        },
+        weather: {
+            cacheTtlMs: settings.number({ key: "weather.cacheTtlMs", env: "WEATHER_CACHE_TTL_MS" }, 10 * 60 * 1000, { min: 0, max: 24 * 60 * 60 * 1000 }),
+            // Tokyo unless configured
+            defaultLocation: {
+                latitude: settings.number({ key: "weather.defaultLatitude", env: "WEATHER_DEFAULT_LAT" }, 35.68, { min: -90, max: 90, integer: false }),
+                longitude: settings.number({ key: "weather.defaultLongitude", env: "WEATHER_DEFAULT_LON" }, 139.69, { min: -180, max: 180, integer: false }),
+            },
+        },
+        logging: {
+            level: settings.oneOf({ key: "logging.level", env: "LOG_LEVEL" }, LOG_LEVELS, "info"),
+        },
+        metrics: {
+            enabled: settings.boolean({ key: "metrics.enabled", env: "METRICS_ENABLED" }, false),
+        },
+        shutdown: {
+            // Inside the 30 seconds most orchestrators wait before killing the process
+            deadlineMs: settings.number({ key: "shutdown.deadlineMs", env: "SHUTDOWN_DEADLINE_MS" }, 25 * 1000, { min: 0, max: 10 * 60 * 1000 }),
+        },
+        waveform: {
+            peaks: settings.number({ key: "waveform.peaks", env: "WAVEFORM_PEAKS" }, DEFAULT_PEAK_COUNT, { min: 8, max: 1024 }),
+            ffmpegPath: settings.string({ key: "waveform.ffmpegPath", env: "FFMPEG_PATH" }),
+        },
+    };
+
+    const problems = [...settings.problems];
+    const badOrigins = config.corsOrigins.filter(origin => !isOrigin(origin));
+    if (badOrigins.length > 0) {
+        problems.push(`CORS_ORIGINS / corsOrigins: ${badOrigins.map(origin => JSON.stringify(origin)).join(", ")} `
+            + `${badOrigins.length === 1 ? "is not an origin" : "are not origins"} (expected e.g. "https://app.example.com" or "*")`);
+    }
+    for (const key of settings.unknownKeys()) {
+        problems.push(`${key}: unknown setting in ${configFile}`);
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems, configFile);
+    }
+    return config;
+}
@@ -0,0 +1,111 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+// SQLite storage with forward-only schema migrations tracked in PRAGMA user_version.
+// Append new migrations to the end of the list; never edit one that has shipped.
+const migrations: string[] = [
+    // 1: chat sessions and their messages
+    `
+    CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL,
+        context TEXT NOT NULL DEFAULT '{}'
+    );
+    CREATE INDEX sessions_last_activity ON sessions (last_activity DESC, id DESC);
+
+    CREATE TABLE messages (
+        session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        sender TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL,
+        status TEXT,
+        lang TEXT,
+        metadata TEXT,
+        timestamp INTEGER NOT NULL,
+        deleted_at INTEGER,
+        PRIMARY KEY (session_id, id)
+    );
+    CREATE UNIQUE INDEX messages_session_seq ON messages (session_id, seq);
+    `,
+
+    // 2: user accounts
+    `
+    CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+    );
+    `,
+
+    // 3: wardrobe items owned by users
+    `
+    CREATE TABLE wardrobe_items (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        image_url TEXT,
+        colors TEXT NOT NULL DEFAULT '[]',
+        seasons TEXT NOT NULL DEFAULT '[]',
+        style TEXT,
+        purchase_price REAL,
+        currency TEXT,
+        purchase_date TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX wardrobe_items_user_created ON wardrobe_items (user_id, created_at DESC, id DESC);
+    `,
+
+    // 4: fashion preferences, one row per user
+    `
+    CREATE TABLE user_preferences (
+        user_id TEXT PRIMARY KEY REFERENCES users (id) ON DELETE CASCADE,
+        preferences TEXT NOT NULL DEFAULT '{}',
+        onboarding TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+    `,
+
+    // 5: chat sessions owned by users; sessions saved before accounts existed have no owner and stay unreachable
+    `
+    ALTER TABLE sessions ADD COLUMN user_id TEXT REFERENCES users (id) ON DELETE CASCADE;
+    CREATE INDEX sessions_user_last_activity ON sessions (user_id, last_activity DESC, id DESC);
+    `,
+];
+
+function migrate(db: Database): void {
+    const { user_version: current } = db.query("PRAGMA user_version").get() as { user_version: number };
+
+    for (let version = current; version < migrations.length; version++) {
+        db.transaction(() => {
+            db.exec(migrations[version] as string);
+            db.exec(`PRAGMA user_version = ${version + 1}`);
+        })();
+    }
+}
+
+// Open (creating if needed) the database at `path` and bring its schema up to date
+export function openDatabase(path: string): Database {
+    if (path !== ":memory:") {
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    const db = new Database(path, { create: true, strict: true });
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec("PRAGMA foreign_keys = ON");
+    migrate(db);
+    return db;
+}
+
+// Fold the write-ahead log back into the database file and close it, so a stopped server
+// leaves a single self-contained file behind
+export function closeDatabase(db: Database): void {
+    db.exec("PRAGMA wal_checkpoint(TRUNCATE)");
+    db.close(true);
+}
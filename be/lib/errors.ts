@@ -0,0 +1,18 @@
+// Error carrying an HTTP status and machine-readable code, mapped to a JSON error body by handlers
+export class HttpError extends Error {
+    readonly status: number;
+    readonly code: string;
+    readonly details?: Record<string, unknown>;
+
+    constructor(status: number, code: string, message: string, details?: Record<string, unknown>) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+
+    toJSON(): Record<string, unknown> {
+        return { error: this.message, code: this.code, ...this.details };
+    }
+}
@@ -0,0 +1,108 @@
+// Health-check registry behind /health/ready: subsystems register probes, which all run in
+// parallel, each with a timeout, so one hung dependency shows up as a failed check instead
+// of a hung endpoint. Each check remembers its last error and last success across runs.
+
+// Resolves (with anything) when healthy, throws when not; should stop work when `signal` aborts
+export type HealthProbe = (signal: AbortSignal) => unknown;
+
+export interface HealthCheckOptions {
+    timeoutMs?: number;             // Default 2 seconds
+    critical?: boolean;             // A failing critical check makes the server unavailable (default true)
+}
+
+export interface HealthCheckResult {
+    name: string;
+    status: "pass" | "fail";
+    critical: boolean;
+    latencyMs: number;
+    error?: string;                 // Why this run failed
+    lastError: { message: string; at: string } | null;
+    lastSuccessAt: string | null;
+}
+
+export interface HealthReport {
+    // unavailable: a critical check failed; degraded: only non-critical ones did
+    status: "ready" | "degraded" | "unavailable";
+    timestamp: string;
+    checks: HealthCheckResult[];
+}
+
+interface RegisteredCheck {
+    name: string;
+    probe: HealthProbe;
+    timeoutMs: number;
+    critical: boolean;
+    lastError: { message: string; at: string } | null;
+    lastSuccessAt: string | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+export class HealthChecks {
+    private readonly checks: RegisteredCheck[] = [];
+    private pending: Promise<HealthReport> | null = null;
+
+    register(name: string, probe: HealthProbe, options: HealthCheckOptions = {}): this {
+        this.checks.push({
+            name,
+            probe,
+            timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+            critical: options.critical ?? true,
+            lastError: null,
+            lastSuccessAt: null,
+        });
+        return this;
+    }
+
+    // Run every probe; concurrent callers (e.g. several load balancers) share one run
+    run(): Promise<HealthReport> {
+        this.pending ??= this.runAll().finally(() => {
+            this.pending = null;
+        });
+        return this.pending;
+    }
+
+    private async runAll(): Promise<HealthReport> {
+        const checks = await Promise.all(this.checks.map(check => this.runOne(check)));
+        const failed = checks.filter(check => check.status === "fail");
+        return {
+            status: failed.some(check => check.critical) ? "unavailable" : failed.length > 0 ? "degraded" : "ready",
+            timestamp: new Date().toISOString(),
+            checks,
+        };
+    }
+
+    private async runOne(check: RegisteredCheck): Promise<HealthCheckResult> {
+        const controller = new AbortController();
+        const started = performance.now();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(() => {
+                const error = new Error(`Timed out after ${check.timeoutMs}ms`);
+                controller.abort(error);
+                reject(error);
+            }, check.timeoutMs);
+        });
+
+        let error: string | undefined;
+        try {
+            await Promise.race([Promise.resolve().then(() => check.probe(controller.signal)), timeout]);
+            check.lastSuccessAt = new Date().toISOString();
+        } catch (caught) {
+            error = caught instanceof Error ? caught.message : String(caught);
+            check.lastError = { message: error, at: new Date().toISOString() };
+        } finally {
+            clearTimeout(timer);
+        }
+
+        return {
+            name: check.name,
+            status: error === undefined ? "pass" : "fail",
+            critical: check.critical,
+            latencyMs: Math.round((performance.now() - started) * 10) / 10,
+            ...(error !== undefined ? { error } : {}),
+            lastError: check.lastError,
+            lastSuccessAt: check.lastSuccessAt,
+        };
+    }
+}
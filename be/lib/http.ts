@@ -0,0 +1,43 @@
+import { HttpError } from "./errors";
+
+// CORS headers helper. `allowOrigin` is "*", the caller's origin, or null for an origin that is not allowed;
+// anything but "*" varies by Origin, so caches keep the answers apart.
+export function getCORSHeaders(allowOrigin: string | null = "*"): Record<string, string> {
+    return {
+        ...(allowOrigin ? { "Access-Control-Allow-Origin": allowOrigin } : {}),
+        ...(allowOrigin === "*" ? {} : { "Vary": "Origin" }),
+        "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Max-Age": "86400",
+    };
+}
+
+// Whether a request from `origin` may use the API. Requests without an Origin header
+// (same-origin navigation, curl, server-to-server) are not cross-origin and always pass.
+export function isOriginAllowed(origin: string | null, allowedOrigins: readonly string[]): boolean {
+    return origin === null || allowedOrigins.includes("*") || allowedOrigins.includes(origin);
+}
+
+// JSON response; CORS headers are added by the cors middleware
+export function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(
+        JSON.stringify(body),
+        {
+            status,
+            headers: { "Content-Type": "application/json" }
+        }
+    );
+}
+
+// Parse a JSON request body; an empty body reads as {}, so schemas report the missing fields
+export async function readJson(req: Request): Promise<unknown> {
+    const text = await req.text();
+    if (!text) {
+        return {};
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new HttpError(400, "invalid_json", "Request body is not valid JSON");
+    }
+}
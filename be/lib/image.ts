@@ -0,0 +1,90 @@
+import { formatSizeLimit, normalizeMimeType } from "./audio";
+import { decodeJpeg } from "./jpeg";
+import { decodePng } from "./png";
+import type { RawImage } from "./raster";
+
+// Image upload validation helpers
+
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB, unless configured otherwise
+
+// Validate image file
+export function validateImageFile(file: File, maxBytes = MAX_IMAGE_SIZE): { valid: boolean; error?: string } {
+    const mimeType = normalizeMimeType(file.type);
+
+    if (file.size === 0) {
+        return { valid: false, error: "Image file is empty" };
+    }
+
+    if (file.size > maxBytes) {
+        return { valid: false, error: `File size exceeds ${formatSizeLimit(maxBytes)} limit` };
+    }
+
+    if (!ALLOWED_IMAGE_TYPES.includes(mimeType)) {
+        return { valid: false, error: `Unsupported image format. Allowed: ${ALLOWED_IMAGE_TYPES.join(", ")}` };
+    }
+
+    return { valid: true };
+}
+
+// Detect the image format from its magic bytes, returning one of ALLOWED_IMAGE_TYPES or null
+export function sniffImageMimeType(bytes: Uint8Array): string | null {
+    // JPEG SOI marker
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return "image/jpeg";
+    }
+
+    // \x89PNG\r\n\x1a\n
+    const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    if (png.every((byte, index) => bytes[index] === byte)) {
+        return "image/png";
+    }
+
+    const ascii = String.fromCharCode(...bytes.subarray(0, 12));
+
+    // RIFF....WEBP
+    if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") {
+        return "image/webp";
+    }
+
+    // GIF87a / GIF89a
+    if (ascii.startsWith("GIF87a") || ascii.startsWith("GIF89a")) {
+        return "image/gif";
+    }
+
+    return null;
+}
+
+// Check that the file contents match its declared MIME type
+export async function verifyImageSignature(file: File): Promise<{ valid: boolean; error?: string }> {
+    const declared = normalizeMimeType(file.type);
+    const header = new Uint8Array(await file.arrayBuffer()).subarray(0, 16);
+    const detected = sniffImageMimeType(header);
+
+    if (!detected) {
+        return { valid: false, error: "Unrecognized image file contents" };
+    }
+
+    if (detected !== declared) {
+        return { valid: false, error: `File contents (${detected}) do not match declared type ${declared}` };
+    }
+
+    return { valid: true };
+}
+
+export interface DecodeImageOptions {
+    maxPixels?: number;         // Larger JPEGs decode at 1/8 scale, which is much faster and enough for color analysis; larger PNGs are rejected
+}
+
+// Decode a PNG or JPEG to RGBA pixels. Returns null for formats without a decoder (WebP, GIF);
+// throws ImageDecodeError when the file is corrupt or uses an unsupported variant.
+export function decodeImage(bytes: Uint8Array, options: DecodeImageOptions = {}): RawImage | null {
+    switch (sniffImageMimeType(bytes)) {
+        case "image/png":
+            return decodePng(bytes, { maxPixels: options.maxPixels });
+        case "image/jpeg":
+            return decodeJpeg(bytes, { maxPixels: options.maxPixels });
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,648 @@
+import { ImageDecodeError, type RawImage } from "./raster";
+
+// JPEG decoder for Huffman-coded baseline and progressive files: 8-bit samples, grayscale or
+// YCbCr/RGB with any chroma subsampling and restart intervals. Lossless, arithmetic-coded and CMYK
+// files are rejected. Images over `maxPixels` are rendered from their DC coefficients only,
+// producing a 1/8-size image for a fraction of the work, which is plenty for color analysis.
+
+export interface JpegDecodeOptions {
+    maxPixels?: number;         // Decode at 1/8 scale above this many pixels (default: always full size)
+}
+
+// Zigzag position -> natural (row-major) position in the 8x8 block
+const ZIGZAG = new Uint8Array([
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// IDCT basis: COSINES[u * 8 + x] = C(u) / 2 * cos((2x + 1)uπ / 16)
+const COSINES = new Float64Array(64);
+for (let u = 0; u < 8; u++) {
+    for (let x = 0; x < 8; x++) {
+        COSINES[u * 8 + x] = ((u === 0 ? Math.SQRT1_2 : 1) / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+}
+
+interface HuffmanTable {
+    maxCode: Int32Array;        // Largest code of each length, -1 when there are none
+    valueOffset: Int32Array;    // Index into `values` minus the first code of each length
+    values: Uint8Array;
+}
+
+interface Component {
+    id: number;
+    h: number;
+    v: number;
+    quantTable: number;
+    blocksPerLine: number;      // Blocks covering the component's own samples
+    blocksPerColumn: number;
+    paddedBlocksPerLine: number;    // Blocks in whole MCUs, the layout of `coefficients`
+    paddedBlocksPerColumn: number;
+    coefficients: Int16Array;   // Quantized coefficients, 64 per block in natural order
+    dcTable?: HuffmanTable;
+    acTable?: HuffmanTable;
+    prediction: number;
+}
+
+interface Frame {
+    width: number;
+    height: number;
+    progressive: boolean;
+    maxH: number;
+    maxV: number;
+    mcusPerLine: number;
+    mcusPerColumn: number;
+    components: Component[];
+}
+
+// Spectral selection and successive approximation of the current scan
+interface Scan {
+    start: number;
+    end: number;
+    high: number;
+    low: number;
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset]! << 8) | bytes[offset + 1]!;
+}
+
+function clamp(value: number): number {
+    return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+    const maxCode = new Int32Array(18).fill(-1);
+    const valueOffset = new Int32Array(17);
+    let code = 0;
+    let index = 0;
+
+    for (let length = 1; length <= 16; length++) {
+        const count = counts[length - 1]!;
+        valueOffset[length] = index - code;
+        code += count;
+        index += count;
+        maxCode[length] = count > 0 ? code - 1 : -1;
+        code <<= 1;
+    }
+
+    return { maxCode, valueOffset, values };
+}
+
+class JpegDecoder {
+    private readonly quantTables: Uint16Array[] = [];     // Natural order
+    private readonly dcTables: HuffmanTable[] = [];
+    private readonly acTables: HuffmanTable[] = [];
+    private frame?: Frame;
+    private restartInterval = 0;
+    private adobeTransform?: number;
+
+    // Entropy-coded data reader state
+    private position = 0;
+    private bitBuffer = 0;
+    private bitCount = 0;
+    private atMarker = false;
+    private endOfBandRun = 0;
+
+    private readonly block = new Float64Array(64);
+    private readonly rows = new Float64Array(64);
+
+    constructor(private readonly data: Uint8Array, private readonly maxPixels: number) {}
+
+    decode(): RawImage {
+        const { data } = this;
+        if (data[0] !== 0xff || data[1] !== 0xd8) {
+            throw new ImageDecodeError("Not a JPEG file");
+        }
+
+        let offset = 2;
+        while (offset < data.length) {
+            if (data[offset] !== 0xff) {
+                offset++;
+                continue;
+            }
+            const marker = data[offset + 1]!;
+            offset += 2;
+
+            // Fill bytes, and markers without a length
+            if (marker === 0xff) {
+                offset--;
+                continue;
+            }
+            if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+                continue;
+            }
+            if (marker === 0xd9) {
+                break;
+            }
+
+            const length = readUint16(data, offset);
+            const segment = data.subarray(offset + 2, offset + length);
+            offset += length;
+
+            switch (marker) {
+                case 0xdb:
+                    this.readQuantTables(segment);
+                    break;
+                case 0xc4:
+                    this.readHuffmanTables(segment);
+                    break;
+                case 0xc0:
+                case 0xc1:
+                case 0xc2:
+                    this.readFrame(segment, marker === 0xc2);
+                    break;
+                case 0xc3: case 0xc5: case 0xc6: case 0xc7:
+                case 0xc9: case 0xca: case 0xcb: case 0xcd: case 0xce: case 0xcf:
+                    throw new ImageDecodeError(`Unsupported JPEG encoding (SOF marker 0x${marker.toString(16)})`);
+                case 0xdd:
+                    this.restartInterval = readUint16(segment, 0);
+                    break;
+                case 0xee:
+                    if (String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") {
+                        this.adobeTransform = segment[11];
+                    }
+                    break;
+                case 0xda:
+                    offset = this.readScan(segment, offset);
+                    break;
+            }
+        }
+
+        return this.render();
+    }
+
+    private readQuantTables(segment: Uint8Array): void {
+        for (let i = 0; i < segment.length;) {
+            const is16Bit = segment[i]! >> 4 === 1;
+            const id = segment[i]! & 15;
+            i++;
+            const table = new Uint16Array(64);
+            for (let k = 0; k < 64; k++) {
+                table[ZIGZAG[k]!] = is16Bit ? readUint16(segment, i + k * 2) : segment[i + k]!;
+            }
+            this.quantTables[id] = table;
+            i += is16Bit ? 128 : 64;
+        }
+    }
+
+    private readHuffmanTables(segment: Uint8Array): void {
+        for (let i = 0; i < segment.length;) {
+            const tableClass = segment[i]! >> 4;
+            const id = segment[i]! & 15;
+            const counts = segment.subarray(i + 1, i + 17);
+            const total = counts.reduce((sum, count) => sum + count, 0);
+            const table = buildHuffmanTable(counts, segment.subarray(i + 17, i + 17 + total));
+            (tableClass === 0 ? this.dcTables : this.acTables)[id] = table;
+            i += 17 + total;
+        }
+    }
+
+    private readFrame(segment: Uint8Array, progressive: boolean): void {
+        if (segment[0] !== 8) {
+            throw new ImageDecodeError(`Unsupported JPEG sample precision ${segment[0]}`);
+        }
+        const height = readUint16(segment, 1);
+        const width = readUint16(segment, 3);
+        const count = segment[5]!;
+        if (width === 0 || height === 0) {
+            throw new ImageDecodeError("JPEG has no dimensions");
+        }
+        if (count !== 1 && count !== 3) {
+            throw new ImageDecodeError(`Unsupported JPEG with ${count} color components`);
+        }
+
+        const specs = Array.from({ length: count }, (_, i) => ({
+            id: segment[6 + i * 3]!,
+            h: segment[7 + i * 3]! >> 4,
+            v: segment[7 + i * 3]! & 15,
+            quantTable: segment[8 + i * 3]!,
+        }));
+        const maxH = Math.max(...specs.map(spec => spec.h));
+        const maxV = Math.max(...specs.map(spec => spec.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+        const components = specs.map(spec => {
+            const paddedBlocksPerLine = mcusPerLine * spec.h;
+            const paddedBlocksPerColumn = mcusPerColumn * spec.v;
+            return {
+                ...spec,
+                blocksPerLine: Math.ceil(Math.ceil((width * spec.h) / maxH) / 8),
+                blocksPerColumn: Math.ceil(Math.ceil((height * spec.v) / maxV) / 8),
+                paddedBlocksPerLine,
+                paddedBlocksPerColumn,
+                coefficients: new Int16Array(paddedBlocksPerLine * paddedBlocksPerColumn * 64),
+                prediction: 0,
+            };
+        });
+
+        this.frame = { width, height, progressive, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+    }
+
+    // Decode the entropy-coded data after a SOS header; returns the offset of the next marker
+    private readScan(segment: Uint8Array, offset: number): number {
+        const frame = this.frame;
+        if (!frame) {
+            throw new ImageDecodeError("JPEG scan before frame header");
+        }
+
+        const count = segment[0]!;
+        const components = Array.from({ length: count }, (_, i) => {
+            const component = frame.components.find(candidate => candidate.id === segment[1 + i * 2]);
+            if (!component) {
+                throw new ImageDecodeError("JPEG scan references an unknown component");
+            }
+            const tables = segment[2 + i * 2]!;
+            component.dcTable = this.dcTables[tables >> 4];
+            component.acTable = this.acTables[tables & 15];
+            return component;
+        });
+        const scan: Scan = {
+            start: segment[1 + count * 2]!,
+            end: segment[2 + count * 2]!,
+            high: segment[3 + count * 2]! >> 4,
+            low: segment[3 + count * 2]! & 15,
+        };
+        if (!frame.progressive) {
+            Object.assign(scan, { start: 0, end: 63, high: 0, low: 0 });
+        }
+
+        const decodeBlock = this.blockDecoder(frame, scan);
+        this.position = offset;
+        this.resetBits(components);
+
+        // A single-component scan walks that component's own blocks; otherwise blocks are grouped in MCUs
+        const single = components.length === 1 ? components[0]! : undefined;
+        const total = single ? single.blocksPerLine * single.blocksPerColumn : frame.mcusPerLine * frame.mcusPerColumn;
+
+        for (let n = 0; n < total; n++) {
+            if (single) {
+                const row = Math.floor(n / single.blocksPerLine);
+                const column = n % single.blocksPerLine;
+                decodeBlock(single, (row * single.paddedBlocksPerLine + column) * 64);
+            } else {
+                const mcuRow = Math.floor(n / frame.mcusPerLine);
+                const mcuColumn = n % frame.mcusPerLine;
+                for (const component of components) {
+                    for (let v = 0; v < component.v; v++) {
+                        for (let h = 0; h < component.h; h++) {
+                            const row = mcuRow * component.v + v;
+                            const column = mcuColumn * component.h + h;
+                            decodeBlock(component, (row * component.paddedBlocksPerLine + column) * 64);
+                        }
+                    }
+                }
+            }
+
+            if (this.restartInterval && (n + 1) % this.restartInterval === 0 && n + 1 < total) {
+                this.skipToRestartMarker();
+                this.resetBits(components);
+            }
+        }
+
+        // Continue parsing at the next real marker
+        let next = this.position;
+        while (next + 1 < this.data.length) {
+            const byte = this.data[next + 1]!;
+            if (this.data[next] === 0xff && byte !== 0 && !(byte >= 0xd0 && byte <= 0xd7)) {
+                break;
+            }
+            next++;
+        }
+        return next;
+    }
+
+    // Pick the block decoding procedure for the scan type
+    private blockDecoder(frame: Frame, scan: Scan): (component: Component, offset: number) => void {
+        if (!frame.progressive) {
+            return (component, offset) => this.decodeBaseline(component, offset);
+        }
+        if (scan.start === 0) {
+            return scan.high === 0
+                ? (component, offset) => this.decodeDcFirst(component, offset, scan)
+                : (component, offset) => this.decodeDcRefine(component, offset, scan);
+        }
+        return scan.high === 0
+            ? (component, offset) => this.decodeAcFirst(component, offset, scan)
+            : (component, offset) => this.decodeAcRefine(component, offset, scan);
+    }
+
+    private resetBits(components: Component[]): void {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+        this.atMarker = false;
+        this.endOfBandRun = 0;
+        for (const component of components) {
+            component.prediction = 0;
+        }
+    }
+
+    private skipToRestartMarker(): void {
+        const { data } = this;
+        while (this.position + 1 < data.length) {
+            const byte = data[this.position + 1]!;
+            if (data[this.position] === 0xff && byte >= 0xd0 && byte <= 0xd7) {
+                this.position += 2;
+                return;
+            }
+            this.position++;
+        }
+    }
+
+    private readBit(): number {
+        if (this.bitCount === 0) {
+            let byte = 0;
+            // Past a marker the data is exhausted; the decoder keeps reading zeros
+            if (!this.atMarker && this.position < this.data.length) {
+                byte = this.data[this.position]!;
+                if (byte === 0xff) {
+                    if (this.data[this.position + 1] === 0) {
+                        this.position += 2;
+                    } else {
+                        this.atMarker = true;
+                        byte = 0;
+                    }
+                } else {
+                    this.position++;
+                }
+            }
+            this.bitBuffer = byte;
+            this.bitCount = 8;
+        }
+        this.bitCount--;
+        return (this.bitBuffer >> this.bitCount) & 1;
+    }
+
+    private readBits(count: number): number {
+        let value = 0;
+        for (let i = 0; i < count; i++) {
+            value = (value << 1) | this.readBit();
+        }
+        return value;
+    }
+
+    // Read a `size`-bit magnitude and sign-extend it (JPEG's EXTEND procedure)
+    private receiveExtend(size: number): number {
+        if (size === 0) {
+            return 0;
+        }
+        const value = this.readBits(size);
+        return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+    }
+
+    private decodeHuffman(table: HuffmanTable | undefined): number {
+        if (!table) {
+            throw new ImageDecodeError("JPEG scan uses an undefined Huffman table");
+        }
+        let code = 0;
+        for (let length = 1; length <= 16; length++) {
+            code = (code << 1) | this.readBit();
+            if (code <= table.maxCode[length]!) {
+                return table.values[code + table.valueOffset[length]!] ?? 0;
+            }
+        }
+        throw new ImageDecodeError("JPEG data is corrupt (invalid Huffman code)");
+    }
+
+    private decodeBaseline(component: Component, offset: number): void {
+        const coefficients = component.coefficients;
+        component.prediction += this.receiveExtend(this.decodeHuffman(component.dcTable));
+        coefficients[offset] = component.prediction;
+
+        for (let k = 1; k < 64;) {
+            const symbol = this.decodeHuffman(component.acTable);
+            const size = symbol & 15;
+            const run = symbol >> 4;
+            if (size === 0) {
+                if (run < 15) {
+                    break;              // End of block
+                }
+                k += 16;                // Run of 16 zeros
+                continue;
+            }
+            k += run;
+            if (k > 63) {
+                break;
+            }
+            coefficients[offset + ZIGZAG[k]!] = this.receiveExtend(size);
+            k++;
+        }
+    }
+
+    private decodeDcFirst(component: Component, offset: number, scan: Scan): void {
+        component.prediction += this.receiveExtend(this.decodeHuffman(component.dcTable));
+        component.coefficients[offset] = component.prediction * (1 << scan.low);
+    }
+
+    private decodeDcRefine(component: Component, offset: number, scan: Scan): void {
+        if (this.readBit()) {
+            component.coefficients[offset] = component.coefficients[offset]! | (1 << scan.low);
+        }
+    }
+
+    private decodeAcFirst(component: Component, offset: number, scan: Scan): void {
+        if (this.endOfBandRun > 0) {
+            this.endOfBandRun--;
+            return;
+        }
+
+        const coefficients = component.coefficients;
+        for (let k = scan.start; k <= scan.end;) {
+            const symbol = this.decodeHuffman(component.acTable);
+            const size = symbol & 15;
+            const run = symbol >> 4;
+            if (size === 0) {
+                if (run < 15) {
+                    // End of band, covering this block and the next 2^run - 1 + extra bits
+                    this.endOfBandRun = (1 << run) - 1 + this.readBits(run);
+                    break;
+                }
+                k += 16;
+                continue;
+            }
+            k += run;
+            if (k > 63) {
+                break;
+            }
+            coefficients[offset + ZIGZAG[k]!] = this.receiveExtend(size) * (1 << scan.low);
+            k++;
+        }
+    }
+
+    // Successive approximation refinement of AC coefficients (ITU T.81, G.1.2.3)
+    private decodeAcRefine(component: Component, offset: number, scan: Scan): void {
+        const coefficients = component.coefficients;
+        const positive = 1 << scan.low;
+        const negative = -1 << scan.low;
+
+        // Add a correction bit to a coefficient that is already nonzero
+        const refine = (index: number) => {
+            const coefficient = coefficients[index]!;
+            if (this.readBit() && (coefficient & positive) === 0) {
+                coefficients[index] = coefficient + (coefficient >= 0 ? positive : negative);
+            }
+        };
+
+        let k = scan.start;
+        if (this.endOfBandRun === 0) {
+            for (; k <= scan.end; k++) {
+                const symbol = this.decodeHuffman(component.acTable);
+                const size = symbol & 15;
+                let run = symbol >> 4;
+                let value = 0;
+                if (size !== 0) {
+                    value = this.readBit() ? positive : negative;
+                } else if (run !== 15) {
+                    this.endOfBandRun = (1 << run) + this.readBits(run);
+                    break;
+                }
+
+                // Skip `run` zero coefficients, refining the nonzero ones passed on the way
+                for (; k <= scan.end; k++) {
+                    const index = offset + ZIGZAG[k]!;
+                    if (coefficients[index] !== 0) {
+                        refine(index);
+                    } else if (--run < 0) {
+                        break;
+                    }
+                }
+                if (value !== 0 && k <= scan.end) {
+                    coefficients[offset + ZIGZAG[k]!] = value;
+                }
+            }
+        }
+
+        if (this.endOfBandRun > 0) {
+            for (; k <= scan.end; k++) {
+                const index = offset + ZIGZAG[k]!;
+                if (coefficients[index] !== 0) {
+                    refine(index);
+                }
+            }
+            this.endOfBandRun--;
+        }
+    }
+
+    // Dequantize and inverse-transform one block into a component plane
+    private renderBlock(coefficients: Int16Array, offset: number, quant: Uint16Array, plane: Uint8Array, planeWidth: number, top: number, left: number): void {
+        const block = this.block;
+        let hasAc = false;
+        for (let i = 0; i < 64; i++) {
+            block[i] = coefficients[offset + i]! * quant[i]!;
+            if (i > 0 && block[i] !== 0) {
+                hasAc = true;
+            }
+        }
+
+        if (!hasAc) {
+            const value = clamp(block[0]! / 8 + 128);
+            for (let y = 0; y < 8; y++) {
+                plane.fill(value, (top + y) * planeWidth + left, (top + y) * planeWidth + left + 8);
+            }
+            return;
+        }
+
+        // Separable 2D inverse DCT: rows, then columns
+        const rows = this.rows;
+        for (let v = 0; v < 8; v++) {
+            for (let x = 0; x < 8; x++) {
+                let sum = 0;
+                for (let u = 0; u < 8; u++) {
+                    sum += block[v * 8 + u]! * COSINES[u * 8 + x]!;
+                }
+                rows[v * 8 + x] = sum;
+            }
+        }
+        for (let x = 0; x < 8; x++) {
+            for (let y = 0; y < 8; y++) {
+                let sum = 0;
+                for (let v = 0; v < 8; v++) {
+                    sum += rows[v * 8 + x]! * COSINES[v * 8 + y]!;
+                }
+                plane[(top + y) * planeWidth + left + x] = clamp(sum + 128);
+            }
+        }
+    }
+
+    // Sample plane of a component; at 1/8 scale each block contributes its DC value only
+    private renderPlane(component: Component, scale: number): { plane: Uint8Array; planeWidth: number } {
+        const quant = this.quantTables[component.quantTable];
+        if (!quant) {
+            throw new ImageDecodeError("JPEG component uses an undefined quantization table");
+        }
+
+        const blockSize = 8 / scale;
+        const planeWidth = component.paddedBlocksPerLine * blockSize;
+        const plane = new Uint8Array(planeWidth * component.paddedBlocksPerColumn * blockSize);
+
+        for (let row = 0; row < component.paddedBlocksPerColumn; row++) {
+            for (let column = 0; column < component.paddedBlocksPerLine; column++) {
+                const offset = (row * component.paddedBlocksPerLine + column) * 64;
+                if (scale === 8) {
+                    plane[row * planeWidth + column] = clamp((component.coefficients[offset]! * quant[0]!) / 8 + 128);
+                } else {
+                    this.renderBlock(component.coefficients, offset, quant, plane, planeWidth, row * 8, column * 8);
+                }
+            }
+        }
+
+        return { plane, planeWidth };
+    }
+
+    private render(): RawImage {
+        const frame = this.frame;
+        if (!frame) {
+            throw new ImageDecodeError("JPEG has no frame header");
+        }
+
+        const scale = frame.width * frame.height > this.maxPixels ? 8 : 1;
+        const width = Math.ceil(frame.width / scale);
+        const height = Math.ceil(frame.height / scale);
+        const data = new Uint8Array(width * height * 4);
+        const components = frame.components;
+        const planes = components.map(component => this.renderPlane(component, scale));
+
+        // Adobe transform 0, or components named R, G, B, mean the samples are already RGB
+        const isRgb = components.length === 3 &&
+            (this.adobeTransform === 0 || components.map(component => component.id).join() === "82,71,66");
+
+        const samples = new Float64Array(components.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                components.forEach((component, c) => {
+                    // Nearest-neighbour upsampling of subsampled components
+                    const sampleX = Math.floor(Math.floor((x * scale * component.h) / frame.maxH) / scale);
+                    const sampleY = Math.floor(Math.floor((y * scale * component.v) / frame.maxV) / scale);
+                    const { plane, planeWidth } = planes[c]!;
+                    samples[c] = plane[sampleY * planeWidth + sampleX]!;
+                });
+
+                const out = (y * width + x) * 4;
+                if (components.length === 1) {
+                    data[out] = data[out + 1] = data[out + 2] = samples[0]!;
+                } else if (isRgb) {
+                    data[out] = samples[0]!;
+                    data[out + 1] = samples[1]!;
+                    data[out + 2] = samples[2]!;
+                } else {
+                    const luma = samples[0]!;
+                    const cb = samples[1]! - 128;
+                    const cr = samples[2]! - 128;
+                    data[out] = clamp(luma + 1.402 * cr);
+                    data[out + 1] = clamp(luma - 0.344136 * cb - 0.714136 * cr);
+                    data[out + 2] = clamp(luma + 1.772 * cb);
+                }
+                data[out + 3] = 255;
+            }
+        }
+
+        return { width, height, data };
+    }
+}
+
+export function decodeJpeg(bytes: Uint8Array, options: JpegDecodeOptions = {}): RawImage {
+    return new JpegDecoder(bytes, options.maxPixels ?? Infinity).decode();
+}
@@ -0,0 +1,84 @@
+// Structured logging: one JSON object per line with level, time, message and context fields
+// (requestId, route, status, durationMs, userId, connectionId, ...). Child loggers carry the
+// fields of the request or connection they belong to, so one id finds every line of a chat.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+interface LoggerSettings {
+    level: LogLevel;
+    write: (level: LogLevel, line: string) => void;
+}
+
+// Shared by every logger, so configuring the root after startup also reaches existing children
+const settings: LoggerSettings = {
+    level: "info",
+    write: (level, line) => (level === "warn" || level === "error" ? console.error(line) : console.log(line)),
+};
+
+// Errors keep their name, message, stack and HTTP code; everything else is logged as JSON would have it
+function serialize(_key: string, value: unknown): unknown {
+    if (value instanceof Error) {
+        const code = (value as { code?: unknown }).code;
+        return { name: value.name, message: value.message, ...(code !== undefined ? { code } : {}), stack: value.stack };
+    }
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+    return value;
+}
+
+export class Logger {
+    constructor(private readonly fields: LogFields = {}) {}
+
+    // A logger adding `fields` to every line, e.g. a request's id
+    child(fields: LogFields): Logger {
+        return new Logger({ ...this.fields, ...fields });
+    }
+
+    // Debug output includes message contents, which are otherwise redacted
+    get debugEnabled(): boolean {
+        return settings.level === "debug";
+    }
+
+    // User-written text as it may appear in logs: verbatim only at debug level
+    redact(content: string | undefined): string | undefined {
+        if (content === undefined || this.debugEnabled) {
+            return content;
+        }
+        return `[redacted ${content.length} chars]`;
+    }
+
+    debug(message: string, fields?: LogFields): void {
+        this.log("debug", message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.log("info", message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.log("warn", message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        this.log("error", message, fields);
+    }
+
+    private log(level: LogLevel, message: string, fields?: LogFields): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+            return;
+        }
+        const entry = { level, time: new Date().toISOString(), msg: message, ...this.fields, ...fields };
+        settings.write(level, JSON.stringify(entry, serialize));
+    }
+}
+
+// Root logger; routes use the per-request child on their RouteContext instead
+export const logger = new Logger();
+
+export function configureLogger(options: Partial<LoggerSettings>): void {
+    Object.assign(settings, options);
+}
@@ -0,0 +1,204 @@
+import { AudioProbeError, dataView, readAscii, roundDuration } from "./audio-container";
+
+// Matroska / WebM probe. EBML is a tree of elements, each an id, a size and a body, the first
+// two variable-length integers. MediaRecorder writes live WebM: the Segment and its Clusters
+// have "unknown" sizes and there is no Duration, so the duration is measured from the block
+// timestamps instead. The tree is scanned flat, entering the elements that matter and skipping
+// everything else by its size, which copes with unknown sizes without tracking where they end.
+
+const ID = {
+    EBML: 0x1a45dfa3,
+    DocType: 0x4282,
+    Segment: 0x18538067,
+    Info: 0x1549a966,
+    TimestampScale: 0x2ad7b1,
+    Duration: 0x4489,
+    Tracks: 0x1654ae6b,
+    TrackEntry: 0xae,
+    TrackNumber: 0xd7,
+    TrackType: 0x83,
+    CodecID: 0x86,
+    Audio: 0xe1,
+    SamplingFrequency: 0xb5,
+    OutputSamplingFrequency: 0x78b5,
+    Channels: 0x9f,
+    Cluster: 0x1f43b675,
+    Timestamp: 0xe7,
+    BlockGroup: 0xa0,
+    Block: 0xa1,
+    SimpleBlock: 0xa3,
+};
+
+const MASTERS = new Set([ID.EBML, ID.Segment, ID.Info, ID.Tracks, ID.TrackEntry, ID.Audio, ID.Cluster, ID.BlockGroup]);
+
+const AUDIO_TRACK = 2;
+
+const CODECS: Record<string, string> = {
+    A_OPUS: "opus",
+    A_VORBIS: "vorbis",
+    A_AAC: "aac",
+    A_FLAC: "flac",
+    "A_MPEG/L3": "mp3",
+    "A_PCM/INT/LIT": "pcm",
+    "A_PCM/FLOAT/IEEE": "pcm_float",
+};
+
+interface Track {
+    number: number;
+    type: number;
+    codecId: string;
+    sampleRate: number | null;
+    outputSampleRate: number | null;    // Set for SBR AAC, where it is the real rate
+    channels: number;                   // Default 1 per the spec
+}
+
+// Block timestamps of one track, in TimestampScale units
+interface BlockTimes {
+    last: number;
+    previous: number | null;
+}
+
+// A variable-length integer: its length comes from the leading zero bits of the first byte.
+// Ids keep the length marker bit, sizes drop it; a size of all ones means "unknown".
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number | null; length: number } | null {
+    const first = bytes[offset];
+    if (first === undefined || first === 0) {
+        return null;
+    }
+    const length = Math.clz32(first) - 23;
+    if (offset + length > bytes.length) {
+        return null;
+    }
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+        const byte = bytes[offset + i]!;
+        value = value * 256 + byte;
+        allOnes &&= byte === 0xff;
+    }
+    return { value: !keepMarker && allOnes ? null : value, length };
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+        value = value * 256 + bytes[offset + i]!;
+    }
+    return value;
+}
+
+function readFloat(bytes: Uint8Array, offset: number, length: number): number {
+    const view = dataView(bytes);
+    return length === 4 ? view.getFloat32(offset) : length === 8 ? view.getFloat64(offset) : 0;
+}
+
+function codecName(codecId: string): string {
+    const known = CODECS[codecId] ?? CODECS[codecId.split("/")[0]!];
+    return known ?? codecId.replace(/^A_/, "").toLowerCase();
+}
+
+export function probeMatroska(bytes: Uint8Array): AudioInfo {
+    if (readVint(bytes, 0, true)?.value !== ID.EBML) {
+        throw new AudioProbeError("Not an EBML file");
+    }
+
+    let docType = "matroska";
+    let timestampScale = 1000000;       // Nanoseconds per timestamp unit
+    let duration: number | null = null;
+    const tracks: Track[] = [];
+    let track: Track | null = null;
+    let clusterTimestamp = 0;
+    const blocks = new Map<number, BlockTimes>();
+
+    let offset = 0;
+    while (offset < bytes.length) {
+        const id = readVint(bytes, offset, true);
+        const size = id && readVint(bytes, offset + id.length, false);
+        if (!id || !size) {
+            break;
+        }
+        const body = offset + id.length + size.length;
+
+        if (MASTERS.has(id.value!)) {
+            if (id.value === ID.TrackEntry) {
+                track = { number: 0, type: 0, codecId: "", sampleRate: null, outputSampleRate: null, channels: 1 };
+                tracks.push(track);
+            } else if (id.value === ID.Cluster) {
+                clusterTimestamp = 0;
+            }
+            offset = body;
+            continue;
+        }
+
+        // A leaf of unknown size or one cut off by the end of the file: nothing more can be read
+        if (size.value === null || body + size.value > bytes.length) {
+            break;
+        }
+
+        switch (id.value) {
+            case ID.DocType:
+                docType = readAscii(bytes, body, size.value).replace(/\0+$/, "");
+                break;
+            case ID.TimestampScale:
+                timestampScale = readUint(bytes, body, size.value) || timestampScale;
+                break;
+            case ID.Duration:
+                duration = readFloat(bytes, body, size.value);
+                break;
+            case ID.TrackNumber:
+                if (track) track.number = readUint(bytes, body, size.value);
+                break;
+            case ID.TrackType:
+                if (track) track.type = readUint(bytes, body, size.value);
+                break;
+            case ID.CodecID:
+                if (track) track.codecId = readAscii(bytes, body, size.value).replace(/\0+$/, "");
+                break;
+            case ID.SamplingFrequency:
+                if (track) track.sampleRate = readFloat(bytes, body, size.value);
+                break;
+            case ID.OutputSamplingFrequency:
+                if (track) track.outputSampleRate = readFloat(bytes, body, size.value);
+                break;
+            case ID.Channels:
+                if (track) track.channels = readUint(bytes, body, size.value);
+                break;
+            case ID.Timestamp:
+                clusterTimestamp = readUint(bytes, body, size.value);
+                break;
+            case ID.Block:
+            case ID.SimpleBlock: {
+                // Track number, then a signed 16-bit timestamp relative to the cluster's
+                const number = readVint(bytes, body, false);
+                if (number?.value && body + number.length + 2 <= bytes.length) {
+                    const time = clusterTimestamp + dataView(bytes).getInt16(body + number.length);
+                    const times = blocks.get(number.value);
+                    blocks.set(number.value, { last: time, previous: times?.last ?? null });
+                }
+                break;
+            }
+        }
+
+        offset = body + size.value;
+    }
+
+    const audio = tracks.find(candidate => candidate.type === AUDIO_TRACK);
+    if (!audio) {
+        throw new AudioProbeError(tracks.length > 0 ? "File has no audio track" : "File has no tracks (corrupt or truncated)");
+    }
+
+    // Without a Duration, the last block's start plus one more block length, assuming even spacing
+    const times = blocks.get(audio.number);
+    if (duration === null && times) {
+        duration = times.last + (times.previous !== null ? times.last - times.previous : 0);
+    }
+
+    return {
+        mimeType: docType === "webm" ? "audio/webm" : "audio/x-matroska",
+        codec: codecName(audio.codecId),
+        duration: duration !== null ? roundDuration(duration * timestampScale / 1e9) : null,
+        sampleRate: Math.round(audio.outputSampleRate ?? audio.sampleRate ?? 0) || null,
+        channels: audio.channels || null,
+    };
+}
@@ -0,0 +1,209 @@
+// In-process metrics in the Prometheus text exposition format: counters, gauges and histograms
+// with labels, collected in a registry that renders them all for GET /metrics
+
+export type Labels = Record<string, string>;
+
+const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+
+// {route="/api/chat",status="200"}; empty when there are no labels
+function formatLabels(names: readonly string[], values: readonly string[], extra = ""): string {
+    const pairs = names.map((name, index) => `${name}="${escapeLabelValue(values[index] ?? "")}"`);
+    if (extra) {
+        pairs.push(extra);
+    }
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return Number.isNaN(value) ? "NaN" : String(value);
+}
+
+abstract class Metric<Series> {
+    protected readonly series = new Map<string, { values: string[]; data: Series }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly labelNames: readonly string[],
+        private readonly type: "counter" | "gauge" | "histogram",
+    ) {}
+
+    protected abstract create(): Series;
+
+    protected abstract sample(labels: string, values: readonly string[], data: Series): string[];
+
+    // Unlabeled metrics report 0 from the start rather than appearing on first use
+    protected reset(): void {
+        this.series.clear();
+        if (this.labelNames.length === 0) {
+            this.get({});
+        }
+    }
+
+    // The series for a label set, created on first use; missing labels are empty strings
+    protected get(labels: Labels): Series {
+        const values = this.labelNames.map(name => labels[name] ?? "");
+        const key = JSON.stringify(values);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { values, data: this.create() };
+            this.series.set(key, entry);
+        }
+        return entry.data;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${this.name} ${this.type}`];
+        for (const { values, data } of this.series.values()) {
+            lines.push(...this.sample(formatLabels(this.labelNames, values), values, data));
+        }
+        return lines.join("\n");
+    }
+}
+
+// Only ever goes up, e.g. requests served
+export class Counter extends Metric<{ value: number }> {
+    constructor(name: string, help: string, labelNames: readonly string[] = []) {
+        super(name, help, labelNames, "counter");
+        this.reset();
+    }
+
+    protected create() {
+        return { value: 0 };
+    }
+
+    protected sample(labels: string, _values: readonly string[], data: { value: number }): string[] {
+        return [`${this.name}${labels} ${formatValue(data.value)}`];
+    }
+
+    inc(labels: Labels = {}, amount = 1): void {
+        if (amount < 0) {
+            throw new RangeError(`Counter ${this.name} cannot decrease`);
+        }
+        this.get(labels).value += amount;
+    }
+}
+
+// Goes up and down, e.g. open connections
+export class Gauge extends Metric<{ value: number }> {
+    constructor(name: string, help: string, labelNames: readonly string[] = []) {
+        super(name, help, labelNames, "gauge");
+        this.reset();
+    }
+
+    protected create() {
+        return { value: 0 };
+    }
+
+    protected sample(labels: string, _values: readonly string[], data: { value: number }): string[] {
+        return [`${this.name}${labels} ${formatValue(data.value)}`];
+    }
+
+    set(labels: Labels, value: number): void {
+        this.get(labels).value = value;
+    }
+
+    inc(labels: Labels = {}, amount = 1): void {
+        this.get(labels).value += amount;
+    }
+
+    dec(labels: Labels = {}, amount = 1): void {
+        this.get(labels).value -= amount;
+    }
+}
+
+interface HistogramSeries {
+    counts: number[];           // Per bucket, not cumulative
+    sum: number;
+    count: number;
+}
+
+// Distribution of observations, e.g. latencies in seconds, in cumulative `le` buckets
+export class Histogram extends Metric<HistogramSeries> {
+    private readonly buckets: number[];
+
+    constructor(name: string, help: string, labelNames: readonly string[] = [], buckets: readonly number[] = DEFAULT_BUCKETS) {
+        super(name, help, labelNames, "histogram");
+        this.buckets = [...buckets].sort((a, b) => a - b);
+        this.reset();
+    }
+
+    protected create(): HistogramSeries {
+        return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    }
+
+    protected sample(_labels: string, values: readonly string[], data: HistogramSeries): string[] {
+        const lines: string[] = [];
+        let cumulative = 0;
+        this.buckets.forEach((bound, index) => {
+            cumulative += data.counts[index]!;
+            lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, `le="${formatValue(bound)}"`)} ${cumulative}`);
+        });
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, `le="+Inf"`)} ${data.count}`);
+        lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(data.sum)}`);
+        lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${data.count}`);
+        return lines;
+    }
+
+    observe(labels: Labels, value: number): void {
+        const series = this.get(labels);
+        const index = this.buckets.findIndex(bound => value <= bound);
+        if (index !== -1) {
+            series.counts[index]!++;
+        }
+        series.sum += value;
+        series.count++;
+    }
+
+    // Start a timer; calling the returned function records the elapsed seconds
+    startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+        const started = performance.now();
+        return (extraLabels = {}) => {
+            const seconds = (performance.now() - started) / 1000;
+            this.observe({ ...labels, ...extraLabels }, seconds);
+            return seconds;
+        };
+    }
+}
+
+// Prometheus client defaults, in seconds
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class MetricsRegistry {
+    private readonly metrics = new Map<string, { render(): string }>();
+
+    private add<T extends { name: string; render(): string }>(metric: T): T {
+        if (this.metrics.has(metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`);
+        }
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    counter(name: string, help: string, labelNames?: readonly string[]): Counter {
+        return this.add(new Counter(name, help, labelNames));
+    }
+
+    gauge(name: string, help: string, labelNames?: readonly string[]): Gauge {
+        return this.add(new Gauge(name, help, labelNames));
+    }
+
+    histogram(name: string, help: string, labelNames?: readonly string[], buckets?: readonly number[]): Histogram {
+        return this.add(new Histogram(name, help, labelNames, buckets));
+    }
+
+    // Every metric in the text exposition format
+    render(): string {
+        return [...this.metrics.values()].map(metric => metric.render()).join("\n\n") + "\n";
+    }
+
+    response(): Response {
+        return new Response(this.render(), { headers: { "Content-Type": CONTENT_TYPE } });
+    }
+}
@@ -0,0 +1,106 @@
+import { HttpError } from "./errors";
+import { getCORSHeaders, isOriginAllowed, jsonResponse } from "./http";
+import type { Middleware } from "./router";
+
+// Standard middleware for the router: CORS, request logging, error mapping and body size limits
+
+// Answer preflight requests and add CORS headers to every response.
+// Browsers at origins outside `allowedOrigins` ("*" allows any) get no Access-Control-Allow-Origin.
+export function cors(allowedOrigins: readonly string[] = ["*"]): Middleware {
+    return async (req, _ctx, next) => {
+        const origin = req.headers.get("origin");
+        const allowOrigin = allowedOrigins.includes("*") ? "*" : origin && isOriginAllowed(origin, allowedOrigins) ? origin : null;
+        const headers = getCORSHeaders(allowOrigin);
+
+        if (req.method === "OPTIONS") {
+            return new Response(null, { status: 200, headers });
+        }
+
+        const response = await next();
+        if (response && response.status !== 101) {
+            for (const [name, value] of Object.entries(headers)) {
+                if (!response.headers.has(name)) {
+                    response.headers.set(name, value);
+                }
+            }
+        }
+        return response;
+    };
+}
+
+// Log one line per request (method, route, status, latency and, once authenticated, the user) and
+// echo the request id in an x-request-id header. `identify` names the user the request signed in as.
+export function requestLogger(identify: (req: Request) => string | undefined = () => undefined): Middleware {
+    return async (req, ctx, next) => {
+        const started = performance.now();
+        const response = await next();
+        if (response && response.status !== 101) {
+            response.headers.set("x-request-id", ctx.requestId);
+        }
+
+        const status = response?.status ?? 101;
+        ctx.log[status >= 500 ? "error" : "info"]("request", {
+            method: req.method,
+            route: ctx.route?.path,
+            path: ctx.url.pathname,
+            status,
+            durationMs: Math.round((performance.now() - started) * 10) / 10,
+            userId: identify(req),
+        });
+        return response;
+    };
+}
+
+// Map thrown HttpErrors to their JSON body and anything else to a 500
+export function errorHandler(): Middleware {
+    return async (req, ctx, next) => {
+        try {
+            return await next();
+        } catch (error) {
+            if (error instanceof HttpError) {
+                return jsonResponse(error, error.status);
+            }
+            ctx.log.error("unhandled error", { method: req.method, path: ctx.url.pathname, error });
+            return jsonResponse({ error: "Internal server error", requestId: ctx.requestId }, 500);
+        }
+    };
+}
+
+// Reject bodies larger than the route's maxBodyBytes (or `defaultMaxBytes`). Content-Length is checked
+// up front; chunked bodies have none, so they are read here, counting bytes, and handed on buffered.
+export function bodyLimit(defaultMaxBytes: number): Middleware {
+    return async (req, ctx, next) => {
+        const maxBytes = ctx.route?.maxBodyBytes ?? defaultMaxBytes;
+        const tooLarge = () => new HttpError(413, "payload_too_large", `Request body exceeds ${maxBytes} bytes`, { maxBytes });
+
+        const length = req.headers.get("content-length");
+        if (length !== null) {
+            if (Number(length) > maxBytes) {
+                throw tooLarge();
+            }
+            return next();
+        }
+        if (!req.body) {
+            return next();
+        }
+
+        const chunks: Uint8Array[] = [];
+        let received = 0;
+        const reader = req.body.getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            received += chunk.value.byteLength;
+            if (received > maxBytes) {
+                await reader.cancel();
+                throw tooLarge();
+            }
+            chunks.push(chunk.value);
+        }
+
+        return next(new Request(req.url, {
+            method: req.method,
+            headers: req.headers,
+            body: Buffer.concat(chunks, received),
+            signal: req.signal,
+        }));
+    };
+}
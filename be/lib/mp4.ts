@@ -0,0 +1,237 @@
+import { AudioProbeError, dataView, readAscii, roundDuration } from "./audio-container";
+
+// MP4 (ISO base media) probe. Boxes nest as size, type, body. The first sound track (hdlr
+// "soun") gives the codec from its sample entry and the duration from its mdhd. Fragmented
+// files, which Safari's MediaRecorder writes, leave those durations at zero and describe
+// their samples in moof fragments instead, so the fragments' sample durations are added up.
+
+// Entered rather than skipped
+const CONTAINERS = new Set(["moov", "trak", "mdia", "minf", "stbl", "mvex", "moof", "traf"]);
+
+// Sample entry types; mp4a is refined by the object type in its esds box
+const CODECS: Record<string, string> = {
+    "mp4a": "aac",
+    "Opus": "opus",
+    "fLaC": "flac",
+    "alac": "alac",
+    "ac-3": "ac3",
+    "ec-3": "eac3",
+    ".mp3": "mp3",
+    "ulaw": "mulaw",
+    "alaw": "alaw",
+    "lpcm": "pcm",
+    "sowt": "pcm",
+    "twos": "pcm",
+};
+
+// MPEG-4 object type indications inside mp4a that are not AAC
+const OBJECT_TYPES: Record<number, string> = {
+    0x69: "mp3",
+    0x6b: "mp3",
+    0xa9: "dts",
+    0xad: "opus",
+};
+
+interface Track {
+    id: number;
+    handler: string;
+    timescale: number;
+    duration: number;
+    codec: string | null;
+    sampleRate: number | null;
+    channels: number | null;
+    defaultSampleDuration: number;      // From trex, for fragments that don't set one
+    fragmentDuration: number;           // Sum over moof fragments
+}
+
+interface Box {
+    type: string;
+    start: number;                      // Of the body
+    end: number;
+}
+
+// The boxes directly inside [start, end)
+function* boxes(bytes: Uint8Array, start: number, end: number): Generator<Box> {
+    const view = dataView(bytes);
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        const type = readAscii(bytes, offset + 4, 4);
+        let header = 8;
+        if (size === 1) {
+            if (offset + 16 > end) return;
+            size = Number(view.getBigUint64(offset + 8));
+            header = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < header) {
+            throw new AudioProbeError(`MP4 box ${JSON.stringify(type)} has an invalid size`);
+        }
+
+        // A box cut off by the end of the file is read as far as it goes
+        yield { type, start: offset + header, end: Math.min(offset + size, end) };
+        offset += size;
+    }
+}
+
+// esds: an ES descriptor holding a decoder config descriptor, whose first byte is the object type
+function esdsObjectType(bytes: Uint8Array, box: Box): number | null {
+    let offset = box.start + 4;         // Full box version and flags
+
+    // Descriptor: tag byte, then a length of up to four 7-bit groups
+    const descriptor = (): number | null => {
+        const tag = bytes[offset++];
+        for (let i = 0; i < 4 && offset < box.end; i++) {
+            if ((bytes[offset++]! & 0x80) === 0) break;
+        }
+        return tag ?? null;
+    };
+
+    if (descriptor() !== 0x03) return null;
+    const flags = bytes[offset + 2] ?? 0;
+    offset += 3;
+    if (flags & 0x80) offset += 2;                      // Depends on another stream
+    if (flags & 0x40) offset += 1 + (bytes[offset] ?? 0);   // URL
+    if (flags & 0x20) offset += 2;                      // OCR stream
+    if (descriptor() !== 0x04) return null;
+    return bytes[offset] ?? null;
+}
+
+// stsd: the first sample entry; for audio, an AudioSampleEntry
+function readSampleEntry(bytes: Uint8Array, stsd: Box, track: Track): void {
+    const view = dataView(bytes);
+    const entry = boxes(bytes, stsd.start + 8, stsd.end).next().value;
+    if (!entry) {
+        return;
+    }
+
+    track.codec = CODECS[entry.type] ?? entry.type.trim().toLowerCase();
+    if (entry.start + 28 <= entry.end) {
+        track.channels = view.getUint16(entry.start + 16) || null;
+        track.sampleRate = view.getUint32(entry.start + 24) >>> 16 || null;    // 16.16 fixed point
+    }
+
+    if (entry.type === "mp4a") {
+        // Version 1 and 2 QuickTime entries add 16 or 36 bytes before the child boxes
+        const version = entry.start + 10 <= entry.end ? view.getUint16(entry.start + 8) : 0;
+        const children = entry.start + 28 + (version === 1 ? 16 : version === 2 ? 36 : 0);
+        for (const child of boxes(bytes, children, entry.end)) {
+            if (child.type === "esds") {
+                const objectType = esdsObjectType(bytes, child);
+                track.codec = (objectType !== null && OBJECT_TYPES[objectType]) || "aac";
+            }
+        }
+    }
+}
+
+export function probeMp4(bytes: Uint8Array): AudioInfo {
+    const view = dataView(bytes);
+    const tracks = new Map<number, Track>();
+    let movieDuration = 0;              // In the mvhd timescale
+    let movieTimescale = 0;
+
+    const walk = (start: number, end: number, track: Track | null): void => {
+        for (const box of boxes(bytes, start, end)) {
+            const version = bytes[box.start] ?? 0;
+            switch (box.type) {
+                case "mvhd":
+                    movieTimescale = view.getUint32(box.start + (version === 1 ? 20 : 12));
+                    movieDuration = version === 1
+                        ? Number(view.getBigUint64(box.start + 24))
+                        : view.getUint32(box.start + 16);
+                    break;
+                case "trak": {
+                    const trak: Track = {
+                        id: 0, handler: "", timescale: 0, duration: 0, codec: null, sampleRate: null,
+                        channels: null, defaultSampleDuration: 0, fragmentDuration: 0,
+                    };
+                    walk(box.start, box.end, trak);
+                    tracks.set(trak.id, trak);
+                    break;
+                }
+                case "tkhd":
+                    if (track) track.id = view.getUint32(box.start + (version === 1 ? 20 : 12));
+                    break;
+                case "mdhd":
+                    if (track) {
+                        track.timescale = view.getUint32(box.start + (version === 1 ? 20 : 12));
+                        track.duration = version === 1
+                            ? Number(view.getBigUint64(box.start + 24))
+                            : view.getUint32(box.start + 16);
+                    }
+                    break;
+                case "hdlr":
+                    if (track) track.handler = readAscii(bytes, box.start + 8, 4);
+                    break;
+                case "stsd":
+                    if (track) readSampleEntry(bytes, box, track);
+                    break;
+                case "trex": {
+                    const trex = tracks.get(view.getUint32(box.start + 4));
+                    if (trex) trex.defaultSampleDuration = view.getUint32(box.start + 12);
+                    break;
+                }
+                case "traf":
+                    walkFragment(box);
+                    break;
+                default:
+                    if (CONTAINERS.has(box.type)) {
+                        walk(box.start, box.end, track);
+                    }
+            }
+        }
+    };
+
+    // traf: tfhd names the track and may set a default sample duration; each trun lists samples
+    const walkFragment = (traf: Box): void => {
+        let track: Track | undefined;
+        let defaultDuration = 0;
+        for (const box of boxes(bytes, traf.start, traf.end)) {
+            const flags = view.getUint32(box.start) & 0xffffff;
+            if (box.type === "tfhd") {
+                track = tracks.get(view.getUint32(box.start + 4));
+                let offset = box.start + 8;
+                if (flags & 0x01) offset += 8;          // Base data offset
+                if (flags & 0x02) offset += 4;          // Sample description index
+                defaultDuration = flags & 0x08 ? view.getUint32(offset) : track?.defaultSampleDuration ?? 0;
+            } else if (box.type === "trun" && track) {
+                const count = view.getUint32(box.start + 4);
+                let offset = box.start + 8;
+                if (flags & 0x01) offset += 4;          // Data offset
+                if (flags & 0x04) offset += 4;          // First sample flags
+                if (!(flags & 0x100)) {
+                    track.fragmentDuration += count * defaultDuration;
+                    continue;
+                }
+                const stride = 4 * [0x100, 0x200, 0x400, 0x800].filter(flag => flags & flag).length;
+                for (let i = 0; i < count && offset + 4 <= box.end; i++, offset += stride) {
+                    track.fragmentDuration += view.getUint32(offset);
+                }
+            }
+        }
+    };
+
+    walk(0, bytes.length, null);
+
+    const audio = [...tracks.values()].find(track => track.handler === "soun");
+    if (!audio) {
+        throw new AudioProbeError(tracks.size > 0 ? "File has no audio track" : "File has no tracks (corrupt or truncated)");
+    }
+
+    let duration: number | null = null;
+    if (audio.timescale > 0 && (audio.duration > 0 || audio.fragmentDuration > 0)) {
+        duration = (audio.duration || audio.fragmentDuration) / audio.timescale;
+    } else if (movieTimescale > 0 && movieDuration > 0) {
+        duration = movieDuration / movieTimescale;
+    }
+
+    return {
+        mimeType: "audio/mp4",
+        codec: audio.codec ?? "unknown",
+        duration: duration !== null ? roundDuration(duration) : null,
+        // The media timescale is the sample rate in practice, and the only one for some encoders
+        sampleRate: audio.sampleRate ?? (audio.timescale || null),
+        channels: audio.channels,
+    };
+}
@@ -0,0 +1,143 @@
+import { AudioProbeError, readAscii, roundDuration } from "./audio-container";
+
+// MPEG-1/2/2.5 audio (MP3, MP2, MP1) probe. After an optional ID3v2 tag the file is a run of
+// frames, each with a 4-byte header giving its bitrate, sample rate and so its length. Frames
+// are walked to the end, which measures variable-bitrate files exactly without trusting a
+// Xing/VBRI header.
+
+// Kbps by MPEG-1 or later version, layer bits (1: Layer III ... 3: Layer I) and bitrate index
+const BITRATES: Record<"v1" | "v2", number[][]> = {
+    v1: [
+        [],
+        [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],     // Layer III
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],    // Layer II
+        [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448], // Layer I
+    ],
+    v2: [
+        [],
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],         // Layer III
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],         // Layer II
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],    // Layer I
+    ],
+};
+
+// Hz by version bits (0: MPEG-2.5, 2: MPEG-2, 3: MPEG-1) and sample rate index
+const SAMPLE_RATES: Record<number, number[]> = {
+    0: [11025, 12000, 8000],
+    2: [22050, 24000, 16000],
+    3: [44100, 48000, 32000],
+};
+
+const CODECS = ["", "mp3", "mp2", "mp1"];
+
+// Frames that must follow the first one before a file without an ID3 tag counts as MPEG audio
+const CONFIRMING_FRAMES = 2;
+
+interface FrameHeader {
+    length: number;                     // Bytes, header included
+    samples: number;
+    sampleRate: number;
+    channels: number;
+    layer: number;                      // 1: Layer III, 2: Layer II, 3: Layer I (as encoded)
+}
+
+// Parse a frame header at `offset`, or null when there is none
+function readFrame(bytes: Uint8Array, offset: number): FrameHeader | null {
+    if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1]! & 0xe0) !== 0xe0) {
+        return null;
+    }
+
+    const version = (bytes[offset + 1]! >> 3) & 0x03;
+    const layer = (bytes[offset + 1]! >> 1) & 0x03;
+    const bitrateIndex = bytes[offset + 2]! >> 4;
+    const sampleRateIndex = (bytes[offset + 2]! >> 2) & 0x03;
+    const padding = (bytes[offset + 2]! >> 1) & 0x01;
+    const mono = bytes[offset + 3]! >> 6 === 0x03;
+
+    const sampleRate = SAMPLE_RATES[version]?.[sampleRateIndex];
+    const bitrate = BITRATES[version === 3 ? "v1" : "v2"][layer]?.[bitrateIndex];
+    // Reserved values, or the free-format bitrate (0), whose frame length cannot be computed
+    if (layer === 0 || !sampleRate || !bitrate) {
+        return null;
+    }
+
+    const bps = bitrate * 1000;
+    let length: number;
+    let samples: number;
+    if (layer === 3) {
+        samples = 384;
+        length = (Math.floor(12 * bps / sampleRate) + padding) * 4;
+    } else if (layer === 1 && version !== 3) {
+        samples = 576;
+        length = Math.floor(72 * bps / sampleRate) + padding;
+    } else {
+        samples = 1152;
+        length = Math.floor(144 * bps / sampleRate) + padding;
+    }
+
+    return { length, samples, sampleRate, channels: mono ? 1 : 2, layer };
+}
+
+// Size of the ID3v2 tag at the start of the file, 0 without one; sizes are 7 bits per byte
+function id3Length(bytes: Uint8Array): number {
+    if (bytes.length < 10 || readAscii(bytes, 0, 3) !== "ID3") {
+        return 0;
+    }
+    const size = ((bytes[6]! & 0x7f) << 21) | ((bytes[7]! & 0x7f) << 14) | ((bytes[8]! & 0x7f) << 7) | (bytes[9]! & 0x7f);
+    const footer = bytes[5]! & 0x10 ? 10 : 0;
+    return 10 + size + footer;
+}
+
+// True for an ADTS (raw AAC) header: the same sync bits as MPEG audio, with the layer bits zero
+export function isAdts(bytes: Uint8Array, offset = 0): boolean {
+    return bytes[offset] === 0xff && bytes[offset + 1] !== undefined && (bytes[offset + 1]! & 0xf6) === 0xf0;
+}
+
+// The Xing/Info header some encoders put in a first, silent frame; it is not audio
+function isInfoFrame(bytes: Uint8Array, offset: number, frame: FrameHeader): boolean {
+    const scan = bytes.subarray(offset + 4, Math.min(offset + frame.length, bytes.length, offset + 40));
+    const text = readAscii(scan, 0, scan.length);
+    return text.includes("Xing") || text.includes("Info") || text.includes("VBRI");
+}
+
+export function probeMpegAudio(bytes: Uint8Array): AudioInfo {
+    const tagged = id3Length(bytes);
+    let offset = tagged;
+
+    // Some taggers leave padding before the first frame
+    while (offset < bytes.length && bytes[offset] === 0x00) {
+        offset++;
+    }
+
+    const first = readFrame(bytes, offset);
+    if (!first) {
+        throw new AudioProbeError(tagged > 0 ? "No MPEG audio frame after the ID3 tag" : "Not an MPEG audio file");
+    }
+
+    let frames = 0;
+    let samples = 0;
+    let position = offset;
+    let frame: FrameHeader | null = first;
+    while (frame) {
+        if (!(position === offset && isInfoFrame(bytes, position, frame))) {
+            frames++;
+            samples += frame.samples;
+        }
+        position += frame.length;
+        frame = readFrame(bytes, position);
+    }
+
+    // A lone frame sync in arbitrary data is easy to hit by chance; real files have a run of
+    // frames, unless they are short enough to end before it
+    if (tagged === 0 && frames < CONFIRMING_FRAMES + 1 && position < bytes.length) {
+        throw new AudioProbeError("Not an MPEG audio file");
+    }
+
+    return {
+        mimeType: "audio/mpeg",
+        codec: CODECS[first.layer]!,
+        duration: roundDuration(samples / first.sampleRate),
+        sampleRate: first.sampleRate,
+        channels: first.channels,
+    };
+}
@@ -0,0 +1,114 @@
+// Minimal multipart/form-data parser.
+// Bun's Request.formData() infers a part's type from its filename extension and drops the
+// Content-Type the client sent, so uploads are parsed here to keep the declared MIME type.
+
+// Room for the boundaries and text fields around an uploaded file, for sizing body limits
+export const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+export class MultipartError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MultipartError";
+    }
+}
+
+export interface MultipartBody {
+    fields: Map<string, string>;
+    files: Map<string, File>;
+}
+
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+
+// Read the boundary parameter from a Content-Type header, or null if it is not multipart
+export function getMultipartBoundary(contentType: string | null): string | null {
+    if (!contentType || !contentType.toLowerCase().startsWith("multipart/form-data")) {
+        return null;
+    }
+    const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+    const boundary = match?.[1] ?? match?.[2];
+    return boundary ? boundary.trim() : null;
+}
+
+function parseHeaders(raw: string): Map<string, string> {
+    const headers = new Map<string, string>();
+    for (const line of raw.split("\r\n")) {
+        const colon = line.indexOf(":");
+        if (colon > 0) {
+            headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+        }
+    }
+    return headers;
+}
+
+function getDispositionParam(disposition: string, param: string): string | undefined {
+    const match = new RegExp(`(?:^|;)\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, "i").exec(disposition) ??
+        new RegExp(`(?:^|;)\\s*${param}=([^;]*)`, "i").exec(disposition);
+    return match?.[1]?.replace(/\\(.)/g, "$1");
+}
+
+// Parse a multipart/form-data buffer into text fields and files
+export function parseMultipart(body: Uint8Array, boundary: string): MultipartBody {
+    const buffer = Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+    const delimiter = Buffer.from(`--${boundary}`);
+    const fields = new Map<string, string>();
+    const files = new Map<string, File>();
+
+    let position = buffer.indexOf(delimiter);
+    if (position === -1) {
+        throw new MultipartError("Multipart boundary not found in body");
+    }
+
+    while (true) {
+        position += delimiter.length;
+
+        // "--" after the delimiter marks the end of the body
+        if (buffer[position] === 0x2d && buffer[position + 1] === 0x2d) {
+            break;
+        }
+        if (!buffer.subarray(position, position + 2).equals(CRLF)) {
+            throw new MultipartError("Malformed multipart delimiter");
+        }
+        position += CRLF.length;
+
+        const headerEnd = buffer.indexOf(HEADER_END, position);
+        if (headerEnd === -1) {
+            throw new MultipartError("Unterminated multipart part headers");
+        }
+        const headers = parseHeaders(buffer.subarray(position, headerEnd).toString("utf8"));
+        const contentStart = headerEnd + HEADER_END.length;
+
+        const next = buffer.indexOf(Buffer.concat([CRLF, delimiter]), contentStart);
+        if (next === -1) {
+            throw new MultipartError("Unterminated multipart part");
+        }
+        const content = buffer.subarray(contentStart, next);
+
+        const disposition = headers.get("content-disposition") ?? "";
+        const name = getDispositionParam(disposition, "name");
+        if (!name) {
+            throw new MultipartError("Multipart part is missing a field name");
+        }
+
+        const filename = getDispositionParam(disposition, "filename");
+        if (filename !== undefined) {
+            const type = headers.get("content-type") ?? "application/octet-stream";
+            files.set(name, new File([content], filename, { type }));
+        } else {
+            fields.set(name, content.toString("utf8"));
+        }
+
+        position = next + CRLF.length;
+    }
+
+    return { fields, files };
+}
+
+// Read and parse a multipart request body
+export async function readMultipart(req: Request): Promise<MultipartBody> {
+    const boundary = getMultipartBoundary(req.headers.get("content-type"));
+    if (!boundary) {
+        throw new MultipartError("Expected multipart/form-data request body");
+    }
+    return parseMultipart(new Uint8Array(await req.arrayBuffer()), boundary);
+}
@@ -0,0 +1,49 @@
+import { HttpError } from "./errors";
+
+// Cursor pagination shared by the list endpoints
+
+export interface PageOptions {
+    limit?: number;
+    cursor?: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export function pageSize(limit?: number): number {
+    if (limit === undefined || !Number.isFinite(limit)) {
+        return DEFAULT_PAGE_SIZE;
+    }
+    return Math.min(Math.max(Math.trunc(limit), 1), MAX_PAGE_SIZE);
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON of the last row's sort key
+export function encodeCursor(value: Record<string, string | number>): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+export function decodeCursor<T>(cursor: string, isValid: (value: unknown) => value is T): T {
+    try {
+        const value: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+        if (isValid(value)) {
+            return value;
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new HttpError(400, "invalid_cursor", "Invalid pagination cursor");
+}
+
+// For cursor guards: a plain JSON object whose fields can then be checked one by one
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ?limit= and ?cursor= query parameters
+export function pageOptions(url: URL): PageOptions {
+    const limit = url.searchParams.get("limit");
+    return {
+        limit: limit ? Number(limit) : undefined,
+        cursor: url.searchParams.get("cursor"),
+    };
+}
@@ -0,0 +1,224 @@
+import { inflateSync } from "node:zlib";
+import { ImageDecodeError, type RawImage } from "./raster";
+
+// PNG decoder: all color types and bit depths, with or without Adam7 interlacing, to 8-bit RGBA.
+// Images over `maxPixels` are rejected from their header, before anything is inflated or allocated.
+
+export interface PngDecodeOptions {
+    maxPixels?: number;         // Reject larger images (default: no limit)
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7: ReadonlyArray<readonly [number, number, number, number]> = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+interface Header {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlaced: boolean;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset]! << 24) | (bytes[offset + 1]! << 16) | (bytes[offset + 2]! << 8) | bytes[offset + 3]!) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Undo the per-scanline filters in place; `data` holds `height` rows, each a filter byte then `rowBytes`
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, height: number, bpp: number): Uint8Array[] {
+    const rows: Uint8Array[] = [];
+    let previous: Uint8Array = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < height; y++) {
+        const start = offset + y * (rowBytes + 1);
+        if (start + rowBytes + 1 > data.length) {
+            throw new ImageDecodeError("PNG image data is truncated");
+        }
+        const filter = data[start]!;
+        const row = data.subarray(start + 1, start + 1 + rowBytes);
+
+        for (let i = 0; i < rowBytes; i++) {
+            const left = i >= bpp ? row[i - bpp]! : 0;
+            const up = previous[i]!;
+            const upLeft = i >= bpp ? previous[i - bpp]! : 0;
+            switch (filter) {
+                case 0: break;
+                case 1: row[i] = row[i]! + left; break;
+                case 2: row[i] = row[i]! + up; break;
+                case 3: row[i] = row[i]! + ((left + up) >> 1); break;
+                case 4: row[i] = row[i]! + paeth(left, up, upLeft); break;
+                default: throw new ImageDecodeError(`Unknown PNG filter type ${filter}`);
+            }
+        }
+
+        rows.push(row);
+        previous = row;
+    }
+
+    return rows;
+}
+
+// Read sample `index` of a row at the header's bit depth, keeping the raw value (up to 16 bits)
+function sample(row: Uint8Array, index: number, bitDepth: number): number {
+    switch (bitDepth) {
+        case 8: return row[index]!;
+        case 16: return (row[index * 2]! << 8) | row[index * 2 + 1]!;
+        default: {
+            const bit = index * bitDepth;
+            const shift = 8 - bitDepth - (bit % 8);
+            return (row[bit >> 3]! >> shift) & ((1 << bitDepth) - 1);
+        }
+    }
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+    return SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+export function decodePng(bytes: Uint8Array, options: PngDecodeOptions = {}): RawImage {
+    if (!isPng(bytes)) {
+        throw new ImageDecodeError("Not a PNG file");
+    }
+
+    let header: Header | undefined;
+    let palette: Uint8Array | undefined;
+    let transparency: Uint8Array | undefined;
+    const idat: Uint8Array[] = [];
+
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+        const length = readUint32(bytes, offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (data.length !== length) {
+            throw new ImageDecodeError(`PNG ${type} chunk is truncated`);
+        }
+        offset += 12 + length;
+
+        if (type === "IHDR") {
+            header = {
+                width: readUint32(data, 0),
+                height: readUint32(data, 4),
+                bitDepth: data[8]!,
+                colorType: data[9]!,
+                interlaced: data[12] === 1,
+            };
+        } else if (type === "PLTE") {
+            palette = data;
+        } else if (type === "tRNS") {
+            transparency = data;
+        } else if (type === "IDAT") {
+            idat.push(data);
+        } else if (type === "IEND") {
+            break;
+        }
+    }
+
+    if (!header) {
+        throw new ImageDecodeError("PNG is missing its IHDR chunk");
+    }
+    const { width, height, bitDepth, colorType } = header;
+    const channels = CHANNELS[colorType];
+    if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth) || width === 0 || height === 0) {
+        throw new ImageDecodeError(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+    }
+    if (colorType === 3 && !palette) {
+        throw new ImageDecodeError("Palette PNG is missing its PLTE chunk");
+    }
+    if (width * height > (options.maxPixels ?? Infinity)) {
+        throw new ImageDecodeError(`PNG is too large (${width}x${height})`);
+    }
+
+    // Filtered scanlines of each pass: a filter byte, then the row's samples
+    const passes = (header.interlaced ? ADAM7 : [[0, 0, 1, 1] as const]).map(([xStart, yStart, xStep, yStep]) => {
+        const passWidth = Math.max(0, Math.ceil((width - xStart) / xStep));
+        const passHeight = Math.max(0, Math.ceil((height - yStart) / yStep));
+        return { xStart, yStart, xStep, yStep, passWidth, passHeight, rowBytes: Math.ceil((passWidth * channels * bitDepth) / 8) };
+    });
+    const expectedBytes = passes.reduce((total, pass) =>
+        pass.passWidth > 0 ? total + pass.passHeight * (pass.rowBytes + 1) : total, 0);
+
+    // Anything past the expected scanlines is unused, so inflating stops there instead of filling memory
+    let inflated: Uint8Array;
+    try {
+        inflated = inflateSync(Buffer.concat(idat), { maxOutputLength: expectedBytes });
+    } catch (error) {
+        throw new ImageDecodeError("PNG image data is corrupt", { cause: error });
+    }
+
+    const bpp = Math.max(1, (channels * bitDepth) >> 3);
+    const maxValue = (1 << bitDepth) - 1;
+    const to8Bit = (value: number) => bitDepth === 16 ? value >> 8 : bitDepth === 8 ? value : Math.round(value * 255 / maxValue);
+
+    // Single transparent color for gray and RGB images without alpha
+    const transparentKey = transparency && (colorType === 0 || colorType === 2)
+        ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => (transparency[i * 2]! << 8) | transparency[i * 2 + 1]!)
+        : undefined;
+
+    const pixels = new Uint8Array(width * height * 4);
+
+    const writeRow = (row: Uint8Array, count: number, y: number, xStart: number, xStep: number) => {
+        for (let i = 0; i < count; i++) {
+            const out = (y * width + xStart + i * xStep) * 4;
+            let r: number, g: number, b: number, a = 255;
+
+            if (colorType === 3) {
+                const index = sample(row, i, bitDepth);
+                r = palette![index * 3] ?? 0;
+                g = palette![index * 3 + 1] ?? 0;
+                b = palette![index * 3 + 2] ?? 0;
+                a = transparency?.[index] ?? 255;
+            } else if (colorType === 0 || colorType === 4) {
+                const gray = sample(row, i * channels, bitDepth);
+                r = g = b = to8Bit(gray);
+                if (colorType === 4) {
+                    a = to8Bit(sample(row, i * channels + 1, bitDepth));
+                } else if (transparentKey && gray === transparentKey[0]) {
+                    a = 0;
+                }
+            } else {
+                const red = sample(row, i * channels, bitDepth);
+                const green = sample(row, i * channels + 1, bitDepth);
+                const blue = sample(row, i * channels + 2, bitDepth);
+                r = to8Bit(red);
+                g = to8Bit(green);
+                b = to8Bit(blue);
+                if (colorType === 6) {
+                    a = to8Bit(sample(row, i * channels + 3, bitDepth));
+                } else if (transparentKey && red === transparentKey[0] && green === transparentKey[1] && blue === transparentKey[2]) {
+                    a = 0;
+                }
+            }
+
+            pixels[out] = r;
+            pixels[out + 1] = g;
+            pixels[out + 2] = b;
+            pixels[out + 3] = a;
+        }
+    };
+
+    let offset = 0;
+    for (const { xStart, yStart, xStep, yStep, passWidth, passHeight, rowBytes } of passes) {
+        if (passWidth <= 0 || passHeight <= 0) {
+            continue;
+        }
+
+        const rows = unfilter(inflated, offset, rowBytes, passHeight, bpp);
+        rows.forEach((row, index) => writeRow(row, passWidth, yStart + index * yStep, xStart, xStep));
+        offset += passHeight * (rowBytes + 1);
+    }
+
+    return { width, height, data: pixels };
+}
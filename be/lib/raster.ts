@@ -0,0 +1,15 @@
+// Decoded image shared by the PNG and JPEG decoders
+
+export interface RawImage {
+    width: number;
+    height: number;
+    data: Uint8Array;           // RGBA, 8 bits per channel, row-major
+}
+
+// The file is corrupt or uses a feature the decoders do not support
+export class ImageDecodeError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "ImageDecodeError";
+    }
+}
@@ -0,0 +1,178 @@
+import type { Server } from "bun";
+import { HttpError } from "./errors";
+import { jsonResponse } from "./http";
+import { logger, type Logger } from "./logger";
+
+// Minimal declarative router: path patterns with :params, per-route methods, 404/405 and a middleware chain
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// Handlers return undefined only after upgrading the request to a WebSocket
+export type RouteResult = Response | undefined;
+
+export interface RouteOptions {
+    maxBodyBytes?: number;      // Overrides the bodyLimit middleware default for this route
+}
+
+export interface Route extends RouteOptions {
+    method: HttpMethod;
+    path: string;
+}
+
+export interface RouteContext {
+    url: URL;
+    params: Record<string, string>;
+    server: Server<WebSocketData>;
+    route?: Route;              // Unset when no route matched the path and method
+    requestId: string;          // From the caller's x-request-id header, or generated
+    log: Logger;                // Tags every line with the request id
+}
+
+export type RouteHandler = (req: Request, ctx: RouteContext) => RouteResult | Promise<RouteResult>;
+
+// Middleware may hand the rest of the chain a replacement request, e.g. one with its body already read
+export type Next = (req?: Request) => Promise<RouteResult>;
+
+export type Middleware = (req: Request, ctx: RouteContext, next: Next) => RouteResult | Promise<RouteResult>;
+
+interface CompiledRoute {
+    route: Route;
+    pattern: RegExp;
+    paramNames: string[];
+    handler: RouteHandler;
+}
+
+// "/api/sessions/:id/messages" -> /^\/api\/sessions\/([^/]+)\/messages\/?$/
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+    const paramNames: string[] = [];
+    const source = path
+        .replace(/\/+$/, "")
+        .split("/")
+        .map(segment => {
+            if (segment.startsWith(":")) {
+                paramNames.push(segment.slice(1));
+                return "([^/]+)";
+            }
+            return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        })
+        .join("/");
+    return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+// Accept a caller's request id (e.g. from a proxy or the frontend) only if it is a short plain token
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function requestIdFor(req: Request): string {
+    const incoming = req.headers.get("x-request-id");
+    return incoming && REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+export class Router {
+    private routes: CompiledRoute[] = [];
+    private middleware: Middleware[] = [];
+
+    // Middleware runs in registration order, for matched and unmatched requests alike
+    use(middleware: Middleware): this {
+        this.middleware.push(middleware);
+        return this;
+    }
+
+    add(method: HttpMethod, path: string, handler: RouteHandler, options: RouteOptions = {}): this {
+        this.routes.push({ route: { ...options, method, path }, ...compilePath(path), handler });
+        return this;
+    }
+
+    get(path: string, handler: RouteHandler, options?: RouteOptions): this {
+        return this.add("GET", path, handler, options);
+    }
+
+    post(path: string, handler: RouteHandler, options?: RouteOptions): this {
+        return this.add("POST", path, handler, options);
+    }
+
+    put(path: string, handler: RouteHandler, options?: RouteOptions): this {
+        return this.add("PUT", path, handler, options);
+    }
+
+    patch(path: string, handler: RouteHandler, options?: RouteOptions): this {
+        return this.add("PATCH", path, handler, options);
+    }
+
+    delete(path: string, handler: RouteHandler, options?: RouteOptions): this {
+        return this.add("DELETE", path, handler, options);
+    }
+
+    // The largest body any route accepts, for the server's own maxRequestBodySize
+    maxBodyBytes(defaultMaxBytes: number): number {
+        return Math.max(defaultMaxBytes, ...this.routes.map(({ route }) => route.maxBodyBytes ?? 0));
+    }
+
+    // Find the route for a request; `allowed` lists the methods registered for the path when none matches.
+    // `malformed` is set when a path parameter is not valid percent-encoding, e.g. "%E0%A4".
+    private match(method: string, pathname: string): {
+        compiled?: CompiledRoute;
+        params: Record<string, string>;
+        allowed: string[];
+        malformed?: boolean;
+    } {
+        const allowed: string[] = [];
+
+        for (const compiled of this.routes) {
+            const match = compiled.pattern.exec(pathname);
+            if (!match) {
+                continue;
+            }
+            if (compiled.route.method !== method) {
+                allowed.push(compiled.route.method);
+                continue;
+            }
+
+            const params: Record<string, string> = {};
+            try {
+                compiled.paramNames.forEach((name, index) => {
+                    params[name] = decodeURIComponent(match[index + 1] as string);
+                });
+            } catch (error) {
+                if (!(error instanceof URIError)) {
+                    throw error;
+                }
+                return { compiled, params: {}, allowed, malformed: true };
+            }
+            return { compiled, params, allowed };
+        }
+
+        return { params: {}, allowed };
+    }
+
+    async handle(req: Request, server: Server<WebSocketData>): Promise<RouteResult> {
+        const url = new URL(req.url);
+        const { compiled, params, allowed, malformed } = this.match(req.method, url.pathname);
+        const requestId = requestIdFor(req);
+        const ctx: RouteContext = { url, params, server, route: compiled?.route, requestId, log: logger.child({ requestId }) };
+
+        // Runs inside the middleware chain, so a malformed path is logged, counted and answered like any 400
+        const dispatch = async (req: Request): Promise<RouteResult> => {
+            if (malformed) {
+                throw new HttpError(400, "invalid_request", "Malformed percent-encoding in request path");
+            }
+            if (compiled) {
+                return compiled.handler(req, ctx);
+            }
+            if (allowed.length > 0) {
+                const response = jsonResponse({ error: `Method ${req.method} not allowed`, code: "method_not_allowed" }, 405);
+                response.headers.set("Allow", [...new Set(allowed)].join(", "));
+                return response;
+            }
+            return jsonResponse({ error: `No route for ${url.pathname}`, code: "not_found" }, 404);
+        };
+
+        const run = (index: number, req: Request): Promise<RouteResult> => {
+            const middleware = this.middleware[index];
+            return middleware
+                ? Promise.resolve(middleware(req, ctx, next => run(index + 1, next ?? req)))
+                : dispatch(req);
+        };
+
+        return run(0, req);
+    }
+}
@@ -0,0 +1,75 @@
+import type { Logger } from "./logger";
+
+// Graceful shutdown on SIGTERM/SIGINT: stop taking new work, tell connected clients, let
+// in-flight requests finish within a deadline, then persist and exit. A second signal exits
+// at once, for when an operator really means it.
+
+export interface ShutdownSteps {
+    drain(): Promise<void>;             // Stop accepting work; resolves once everything in flight is done
+    announce(): void;                   // Tell connected clients, who should reconnect elsewhere or later
+    force(): Promise<void> | void;      // Past the deadline: cut whatever is still running
+    flush(): void;                      // Persist pending state and release resources
+}
+
+export interface ShutdownOptions {
+    deadlineMs: number;
+    log: Logger;
+}
+
+export class GracefulShutdown {
+    private started = false;
+
+    constructor(
+        private readonly steps: ShutdownSteps,
+        private readonly options: ShutdownOptions,
+    ) {}
+
+    // True from the first signal on; new connections and readiness checks should be refused
+    get draining(): boolean {
+        return this.started;
+    }
+
+    listen(signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"]): void {
+        for (const signal of signals) {
+            process.on(signal, () => {
+                if (this.started) {
+                    this.options.log.warn("shutdown forced by second signal", { signal });
+                    process.exit(1);
+                }
+                void this.run(signal).then(code => process.exit(code));
+            });
+        }
+    }
+
+    // Run every step in order, resolving with the exit code
+    async run(reason: string): Promise<number> {
+        this.started = true;
+        const { deadlineMs, log } = this.options;
+        const started = performance.now();
+        log.info("shutdown started", { reason, deadlineMs });
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+            const drained = this.steps.drain();
+            this.steps.announce();
+
+            const deadline = new Promise<"deadline">(resolve => {
+                timer = setTimeout(() => resolve("deadline"), deadlineMs);
+            });
+            if (await Promise.race([drained.then(() => "drained" as const), deadline]) === "deadline") {
+                log.warn("shutdown deadline passed, closing remaining connections", { deadlineMs });
+                await this.steps.force();
+            }
+
+            this.steps.flush();
+        } catch (error) {
+            log.error("shutdown failed", { error });
+            return 1;
+        } finally {
+            clearTimeout(timer);
+        }
+
+        log.info("shutdown complete", { durationMs: Math.round(performance.now() - started) });
+        return 0;
+    }
+}
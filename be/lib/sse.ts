@@ -0,0 +1,40 @@
+// Server-sent events helpers
+
+// Encode a JSON payload as a single SSE "data:" event
+export function encodeSSEData(payload: unknown): string {
+    return `data: ${typeof payload === "string" ? payload : JSON.stringify(payload)}\n\n`;
+}
+
+// Yield the data payload of each event in an SSE byte stream
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let data: string[] = [];
+
+    for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf("\n")) !== -1) {
+            const line = buffer.slice(0, newline).replace(/\r$/, "");
+            buffer = buffer.slice(newline + 1);
+
+            // A blank line dispatches the pending event
+            if (line === "") {
+                if (data.length > 0) {
+                    yield data.join("\n");
+                    data = [];
+                }
+                continue;
+            }
+
+            if (line.startsWith("data:")) {
+                data.push(line.slice(5).replace(/^ /, ""));
+            }
+        }
+    }
+
+    if (data.length > 0) {
+        yield data.join("\n");
+    }
+}
@@ -0,0 +1,144 @@
+import type { UIMessageInput } from "@shared/chat";
+import type { ChatStreamPart } from "../providers/chat";
+import { encodeSSEData } from "./sse";
+
+// AI SDK UI message stream (protocol v1), as consumed by useChat's DefaultChatTransport
+
+export const UI_MESSAGE_STREAM_HEADERS: Record<string, string> = {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "x-vercel-ai-ui-message-stream": "v1",
+    "x-accel-buffering": "no",
+};
+
+// Accept both our ChatMessage and AI SDK UIMessage shapes, dropping roles providers don't take
+export function toChatMessages(messages: Array<ChatMessage | UIMessageInput>): ChatMessage[] {
+    return messages.flatMap(message => {
+        if (!("parts" in message)) {
+            return [message];
+        }
+        if (message.role === "system") {
+            return [];
+        }
+        const text = message.parts.filter(part => part.type === "text").map(part => part.text ?? "").join("");
+        return [{ role: message.role, text }];
+    });
+}
+
+// The client may already have cancelled the stream, in which case closing throws
+function closeQuietly(controller: ReadableStreamDefaultController<Uint8Array>): void {
+    try {
+        controller.close();
+    } catch {
+        // Already closed or cancelled
+    }
+}
+
+export interface UIMessageStreamOptions {
+    messageId?: string;
+    signal: AbortSignal;            // Aborted when the client disconnects
+    headers?: Record<string, string>;
+    onError?: (error: unknown) => void;
+}
+
+// Translate provider stream parts into an SSE response of UI message chunks
+export function createUIMessageStreamResponse(
+    produce: (signal: AbortSignal) => AsyncIterable<ChatStreamPart>,
+    options: UIMessageStreamOptions,
+): Response {
+    const abortController = new AbortController();
+    const encoder = new TextEncoder();
+    const abort = () => abortController.abort();
+    options.signal.addEventListener("abort", abort, { once: true });
+
+    // Runs detached from start() so the runtime sees the stream as started and can report cancellation
+    const pump = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+        const write = (chunk: unknown) => controller.enqueue(encoder.encode(encodeSSEData(chunk)));
+
+        // Text and reasoning are sent as blocks; a block stays open until the part type changes
+        let openBlock: { type: "text" | "reasoning"; id: string } | null = null;
+        let blockCount = 0;
+        const closeBlock = () => {
+            if (openBlock) {
+                write({ type: `${openBlock.type}-end`, id: openBlock.id });
+                openBlock = null;
+            }
+        };
+        const ensureBlock = (type: "text" | "reasoning"): string => {
+            if (openBlock?.type !== type) {
+                closeBlock();
+                openBlock = { type, id: `${type}-${blockCount++}` };
+                write({ type: `${type}-start`, id: openBlock.id });
+            }
+            return openBlock.id;
+        };
+
+        write({ type: "start", ...(options.messageId ? { messageId: options.messageId } : {}) });
+        write({ type: "start-step" });
+
+        try {
+            for await (const part of produce(abortController.signal)) {
+                if (abortController.signal.aborted) {
+                    break;
+                }
+
+                switch (part.type) {
+                    case "text-delta":
+                        write({ type: "text-delta", id: ensureBlock("text"), delta: part.delta });
+                        break;
+                    case "reasoning-delta":
+                        write({ type: "reasoning-delta", id: ensureBlock("reasoning"), delta: part.delta });
+                        break;
+                    case "tool-call":
+                        closeBlock();
+                        write({
+                            type: "tool-input-available",
+                            toolCallId: part.toolCallId,
+                            toolName: part.toolName,
+                            input: part.input,
+                        });
+                        break;
+                    case "tool-result":
+                        closeBlock();
+                        write({ type: "tool-output-available", toolCallId: part.toolCallId, output: part.output });
+                        break;
+                }
+            }
+
+            if (abortController.signal.aborted) {
+                return closeQuietly(controller);
+            }
+
+            closeBlock();
+            write({ type: "finish-step" });
+            write({ type: "finish" });
+        } catch (error) {
+            if (abortController.signal.aborted) {
+                return closeQuietly(controller);
+            }
+            options.onError?.(error);
+            closeBlock();
+            write({ type: "error", errorText: "Chat provider unavailable" });
+        } finally {
+            options.signal.removeEventListener("abort", abort);
+        }
+
+        controller.enqueue(encoder.encode(encodeSSEData("[DONE]")));
+        controller.close();
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            void pump(controller);
+        },
+        cancel() {
+            abort();
+        },
+    });
+
+    return new Response(stream, {
+        status: 200,
+        headers: { ...UI_MESSAGE_STREAM_HEADERS, ...options.headers },
+    });
+}
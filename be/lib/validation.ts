@@ -0,0 +1,14 @@
+import { validate, type Schema } from "@shared/validation";
+import { HttpError } from "./errors";
+
+// Validate a request body against a shared schema, throwing a 400 that lists the offending fields
+export function parseBody<T>(schema: Schema<T>, body: unknown): T {
+    const result = validate(schema, body);
+    if (!result.success) {
+        throw new HttpError(400, "invalid_request", `Invalid request: ${result.fields.join(", ")}`, {
+            fields: result.fields,
+            issues: result.issues,
+        });
+    }
+    return result.data;
+}
@@ -0,0 +1,108 @@
+import { AudioProbeError, dataView, readAscii, roundDuration, type PcmAudio } from "./audio-container";
+
+// WAV (RIFF/WAVE) probe and PCM decoder: the fmt chunk gives the format, the data chunk the samples
+
+// WAVE format tags; WAVE_FORMAT_EXTENSIBLE (0xfffe) carries the real one in its sub-format GUID
+const CODECS: Record<number, string> = {
+    0x0001: "pcm",
+    0x0003: "pcm_float",
+    0x0006: "alaw",
+    0x0007: "mulaw",
+    0x0011: "ima_adpcm",
+    0x0055: "mp3",
+};
+
+interface WavLayout {
+    tag: number;
+    channels: number;
+    sampleRate: number;
+    byteRate: number;
+    blockAlign: number;
+    bitsPerSample: number;
+    dataOffset: number;
+    dataBytes: number;
+}
+
+function readLayout(bytes: Uint8Array): WavLayout {
+    const view = dataView(bytes);
+    let format: Omit<WavLayout, "dataOffset" | "dataBytes"> | null = null;
+
+    // Chunks follow the 12-byte RIFF header, each padded to an even length
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const id = readAscii(bytes, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+
+        if (id === "fmt ") {
+            if (size < 16 || body + 16 > bytes.length) {
+                throw new AudioProbeError("WAV fmt chunk is truncated");
+            }
+            let tag = view.getUint16(body, true);
+            if (tag === 0xfffe && size >= 40 && body + 26 <= bytes.length) {
+                tag = view.getUint16(body + 24, true);
+            }
+            format = {
+                tag,
+                channels: view.getUint16(body + 2, true),
+                sampleRate: view.getUint32(body + 4, true),
+                byteRate: view.getUint32(body + 8, true),
+                blockAlign: view.getUint16(body + 12, true),
+                bitsPerSample: view.getUint16(body + 14, true),
+            };
+        } else if (id === "data") {
+            if (!format) {
+                throw new AudioProbeError("WAV data chunk comes before the fmt chunk");
+            }
+            // Recorders that stream WAV write a placeholder size; count what actually arrived
+            return { ...format, dataOffset: body, dataBytes: Math.min(size, bytes.length - body) };
+        }
+
+        offset = body + size + (size % 2);
+    }
+
+    throw new AudioProbeError(format ? "WAV file has no data chunk" : "WAV file has no fmt chunk");
+}
+
+export function probeWav(bytes: Uint8Array): AudioInfo {
+    const layout = readLayout(bytes);
+    return {
+        mimeType: "audio/wav",
+        codec: CODECS[layout.tag] ?? `wave_format_0x${layout.tag.toString(16).padStart(4, "0")}`,
+        duration: layout.byteRate > 0 ? roundDuration(layout.dataBytes / layout.byteRate) : null,
+        sampleRate: layout.sampleRate || null,
+        channels: layout.channels || null,
+    };
+}
+
+// Decode integer (8, 16, 24 or 32-bit) or float (32 or 64-bit) PCM; other encodings need ffmpeg
+export function decodeWav(bytes: Uint8Array): PcmAudio {
+    const layout = readLayout(bytes);
+    const { tag, channels, bitsPerSample } = layout;
+    const width = bitsPerSample / 8;
+    const integer = tag === 0x0001 && [8, 16, 24, 32].includes(bitsPerSample);
+    const float = tag === 0x0003 && [32, 64].includes(bitsPerSample);
+    if ((!integer && !float) || channels === 0 || layout.blockAlign !== channels * width) {
+        throw new AudioProbeError(`WAV ${CODECS[tag] ?? "format"} at ${bitsPerSample} bits cannot be decoded natively`);
+    }
+
+    const view = dataView(bytes);
+    const count = Math.floor(layout.dataBytes / width / channels) * channels;
+    const samples = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        const at = layout.dataOffset + i * width;
+        if (float) {
+            samples[i] = width === 4 ? view.getFloat32(at, true) : view.getFloat64(at, true);
+        } else if (width === 1) {
+            samples[i] = (bytes[at]! - 128) / 128;          // 8-bit PCM is unsigned
+        } else if (width === 2) {
+            samples[i] = view.getInt16(at, true) / 0x8000;
+        } else if (width === 3) {
+            samples[i] = ((bytes[at]! | (bytes[at + 1]! << 8) | (bytes[at + 2]! << 16)) << 8 >> 8) / 0x800000;
+        } else {
+            samples[i] = view.getInt32(at, true) / 0x80000000;
+        }
+    }
+
+    return { sampleRate: layout.sampleRate, channels, samples };
+}
@@ -0,0 +1,30 @@
+import type { PcmAudio } from "./audio-container";
+
+// Waveform peaks for voice message bubbles: the audio split into `count` equal slices, each
+// reduced to its loudest sample across channels, then scaled so the loudest slice is 1.
+
+export const DEFAULT_PEAK_COUNT = 64;
+
+export function computePeaks(audio: PcmAudio, count = DEFAULT_PEAK_COUNT): number[] {
+    const { channels, samples } = audio;
+    const frames = Math.floor(samples.length / channels);
+    const peaks = new Array<number>(count).fill(0);
+    if (frames === 0) {
+        return peaks;
+    }
+
+    for (let slice = 0; slice < count; slice++) {
+        const start = Math.floor(slice * frames / count);
+        // Audio shorter than `count` frames repeats frames rather than leaving gaps
+        const end = Math.max(start + 1, Math.floor((slice + 1) * frames / count));
+        let peak = 0;
+        for (let i = start * channels; i < end * channels; i++) {
+            peak = Math.max(peak, Math.abs(samples[i]!));
+        }
+        peaks[slice] = peak;
+    }
+
+    const loudest = Math.max(...peaks);
+    // Two decimals are plenty for drawing and keep the JSON small
+    return loudest > 0 ? peaks.map(peak => Math.round(peak / loudest * 100) / 100) : peaks;
+}
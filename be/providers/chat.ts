@@ -0,0 +1,505 @@
+import { HttpError } from "../lib/errors";
+import { logger, type Logger } from "../lib/logger";
+import { readSSEData } from "../lib/sse";
+
+// Chat completion providers, registered per model name
+
+export interface ChatProviderOptions {
+    signal?: AbortSignal;
+    tools?: ChatTool[];             // Server-side functions the model may call before answering
+    log?: Logger;                   // The request's logger, for tool failures
+}
+
+// A function the model can call mid-reply. `parameters` is the JSON Schema of its input;
+// the output is sent back to the model as JSON.
+export interface ChatTool {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+    execute(input: unknown, signal?: AbortSignal): Promise<unknown>;
+    // The offline provider can't reason, so it calls the tool when a message matches `trigger`
+    // and answers with `summarize(output)`
+    trigger?: RegExp;
+    summarize?(output: unknown): string;
+}
+
+// Incremental output of a streamed completion
+export type ChatStreamPart =
+    | { type: "text-delta"; delta: string }
+    | { type: "reasoning-delta"; delta: string }
+    | { type: "tool-call"; toolCallId: string; toolName: string; input: unknown }
+    | { type: "tool-result"; toolCallId: string; output: unknown };
+
+export interface ChatProvider {
+    readonly name: string;
+    generate(request: ChatRequest, options?: ChatProviderOptions): Promise<ChatResponse>;
+    stream(request: ChatRequest, options?: ChatProviderOptions): AsyncIterable<ChatStreamPart>;
+    // Readiness probe; providers without one are always ready
+    check?(signal?: AbortSignal): Promise<void>;
+}
+
+// Requested model has no registered provider
+export class UnknownModelError extends HttpError {
+    constructor(model: string, availableModels: string[]) {
+        super(400, "unknown_model", `Unknown model: ${model}`, { model, availableModels });
+        this.name = "UnknownModelError";
+    }
+}
+
+// Upstream provider failed or returned an unusable response
+export class ChatProviderError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "ChatProviderError";
+    }
+}
+
+export const MARIN_SYSTEM_PROMPT =
+    "You are Marin-chan, a cheerful, kawaii fashion assistant. " +
+    "Help the user decide what to wear, taking the weather and their wardrobe into account. " +
+    "Keep answers friendly and concise.";
+
+export class ChatProviderRegistry {
+    private providers = new Map<string, ChatProvider>();
+
+    constructor(private defaultModel?: string) {}
+
+    register(model: string, provider: ChatProvider): this {
+        this.providers.set(model, provider);
+        this.defaultModel ??= model;
+        return this;
+    }
+
+    models(): string[] {
+        return [...this.providers.keys()];
+    }
+
+    // Look up the provider for a model, falling back to the default model when none is given
+    resolve(model?: string): { model: string; provider: ChatProvider } {
+        const name = model || this.defaultModel;
+        const provider = name ? this.providers.get(name) : undefined;
+        if (!name || !provider) {
+            throw new UnknownModelError(name ?? "", this.models());
+        }
+        return { model: name, provider };
+    }
+}
+
+// Stable 32-bit FNV-1a hash, used to pick replies deterministically
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function lastUserText(request: ChatRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === "user");
+    return lastUserMessage?.text ?? "";
+}
+
+export interface LocalChatProviderOptions {
+    streamDelayMs?: number;         // Pause between streamed words, to mimic a real model
+}
+
+// Deterministic offline provider: the same conversation always gets the same reply
+export function createLocalChatProvider(options: LocalChatProviderOptions = {}): ChatProvider {
+    const responses = [
+        "That's a really interesting point! Let me think about that for a moment...",
+        "I understand what you're asking. Here's my perspective on that:",
+        "Great question! Based on what you've shared, I think...",
+        "That reminds me of something important we should consider:",
+        "Let me help you with that! Here's what I would suggest:",
+    ];
+    const streamDelayMs = options.streamDelayMs ?? 0;
+
+    function reply(text: string): string {
+        const opener = responses[hashString(text) % responses.length] as string;
+        return text ? `${opener} You said: "${text}"` : opener;
+    }
+
+    // The first tool whose trigger matches the message, if any
+    function toolFor(text: string, tools: ChatTool[] = []): ChatTool | undefined {
+        return tools.find(tool => tool.trigger?.test(text));
+    }
+
+    return {
+        name: "local",
+        async generate(request, providerOptions) {
+            const text = lastUserText(request);
+            const tool = toolFor(text, providerOptions?.tools);
+            if (tool) {
+                const output = await tool.execute({}, providerOptions?.signal);
+                return { role: "assistant", content: tool.summarize?.(output) ?? reply(text) };
+            }
+            return {
+                role: "assistant",
+                content: reply(text),
+            };
+        },
+        async *stream(request, providerOptions) {
+            const text = lastUserText(request);
+            yield { type: "reasoning-delta", delta: `The user wrote ${text.length} characters.` };
+
+            let answer = reply(text);
+            const tool = toolFor(text, providerOptions?.tools);
+            if (tool) {
+                const toolCallId = `call-${hashString(text).toString(16)}`;
+                yield { type: "tool-call", toolCallId, toolName: tool.name, input: {} };
+                const output = await tool.execute({}, providerOptions?.signal);
+                yield { type: "tool-result", toolCallId, output };
+                answer = tool.summarize?.(output) ?? answer;
+            }
+
+            for (const word of answer.split(/(?<= )/)) {
+                if (providerOptions?.signal?.aborted) {
+                    return;
+                }
+                if (streamDelayMs > 0) {
+                    await Bun.sleep(streamDelayMs);
+                }
+                yield { type: "text-delta", delta: word };
+            }
+        },
+    };
+}
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;                // e.g. https://api.openai.com/v1 or http://localhost:8080/v1
+    apiKey?: string;
+    upstreamModel?: string;         // Model name sent upstream, defaults to the requested model
+    systemPrompt?: string;
+    timeoutMs?: number;
+}
+
+interface OpenAIToolCall {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+}
+
+// Conversation as sent upstream, including tool calls and their results
+type OpenAIMessage =
+    | { role: "system" | "user" | "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+    | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIChatCompletion {
+    choices?: Array<{ message?: { content?: string | null; tool_calls?: OpenAIToolCall[] } }>;
+}
+
+type OpenAICompletionMessage = NonNullable<NonNullable<OpenAIChatCompletion["choices"]>[number]["message"]>;
+
+// The first choice's message of a completion, undefined when it has none. A body that is not
+// JSON or not shaped like a completion (an HTML error page from a proxy, a truncated body)
+// is the upstream's failure like any other.
+async function readCompletionMessage(response: Response): Promise<OpenAICompletionMessage | undefined> {
+    let completion: OpenAIChatCompletion | null;
+    try {
+        completion = await response.json() as OpenAIChatCompletion | null;
+    } catch (error) {
+        throw new ChatProviderError("Chat provider returned a malformed response", { cause: error });
+    }
+
+    const choices = completion?.choices;
+    const message = Array.isArray(choices) ? choices[0]?.message : undefined;
+    if (typeof completion !== "object" || completion === null
+        || (choices !== undefined && !Array.isArray(choices))
+        || (message !== undefined && (typeof message !== "object" || message === null))
+        || (message?.tool_calls !== undefined && !Array.isArray(message.tool_calls))) {
+        throw new ChatProviderError("Chat provider returned a malformed response");
+    }
+    return message;
+}
+
+interface OpenAIChatCompletionChunk {
+    choices?: Array<{
+        delta?: {
+            content?: string | null;
+            reasoning_content?: string | null;
+            tool_calls?: Array<{
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+            }>;
+        };
+    }>;
+}
+
+type OpenAIChunkDelta = NonNullable<NonNullable<OpenAIChatCompletionChunk["choices"]>[number]["delta"]>;
+
+// The first choice's delta from one SSE data line; throws ChatProviderError unless it is shaped like a chunk
+function readChunkDelta(data: string): OpenAIChunkDelta | undefined {
+    let chunk: OpenAIChatCompletionChunk | null;
+    try {
+        chunk = JSON.parse(data) as OpenAIChatCompletionChunk | null;
+    } catch (error) {
+        throw new ChatProviderError("Chat provider sent a malformed stream chunk", { cause: error });
+    }
+
+    const choices = chunk?.choices;
+    const choice: unknown = Array.isArray(choices) ? choices[0] : undefined;
+    const delta: unknown = typeof choice === "object" && choice !== null ? (choice as { delta?: unknown }).delta : undefined;
+    const toolCalls: unknown = typeof delta === "object" && delta !== null ? (delta as OpenAIChunkDelta).tool_calls : undefined;
+    if (typeof chunk !== "object" || chunk === null
+        || (choices !== undefined && !Array.isArray(choices))
+        || (choice !== undefined && (typeof choice !== "object" || choice === null))
+        || (delta !== undefined && (typeof delta !== "object" || delta === null))
+        || (toolCalls !== undefined && (!Array.isArray(toolCalls)
+            || !toolCalls.every(call => typeof call === "object" && call !== null && typeof call.index === "number")))) {
+        throw new ChatProviderError("Chat provider sent a malformed stream chunk");
+    }
+    return delta as OpenAIChunkDelta | undefined;
+}
+
+// Rounds of tool calls allowed per reply, so a model can't loop forever
+const MAX_TOOL_ROUNDS = 3;
+
+function parseToolInput(args: string): unknown {
+    try {
+        return args ? JSON.parse(args) : {};
+    } catch {
+        return args;
+    }
+}
+
+// Unknown tools and tool failures are reported back to the model rather than failing the reply
+async function runTool(tools: ChatTool[], call: OpenAIToolCall, options?: ChatProviderOptions): Promise<unknown> {
+    const tool = tools.find(candidate => candidate.name === call.function.name);
+    if (!tool) {
+        return { error: `Unknown tool: ${call.function.name}` };
+    }
+    try {
+        return await tool.execute(parseToolInput(call.function.arguments), options?.signal);
+    } catch (error) {
+        (options?.log ?? logger).error("chat tool failed", { tool: tool.name, error });
+        return { error: "Tool failed" };
+    }
+}
+
+// The user's preferences as a note for the model; null when there are none
+export function describePreferences(preferences?: UserPreferences): string | null {
+    if (!preferences) {
+        return null;
+    }
+
+    const lines: string[] = [];
+    if (preferences.preferredStyle?.length) {
+        lines.push(`Preferred styles: ${preferences.preferredStyle.join(", ")}`);
+    }
+    if (preferences.favoriteColors?.length) {
+        lines.push(`Favorite colors: ${preferences.favoriteColors.join(", ")}`);
+    }
+    const sizes = Object.entries(preferences.sizeInfo ?? {}).filter(([, size]) => size);
+    if (sizes.length > 0) {
+        lines.push(`Sizes: ${sizes.map(([part, size]) => `${part} ${size}`).join(", ")}`);
+    }
+    const { min, max, currency } = preferences.budget ?? {};
+    if (min !== undefined || max !== undefined) {
+        const range = min !== undefined && max !== undefined ? `${min}-${max}` : min !== undefined ? `from ${min}` : `up to ${max}`;
+        lines.push(`Budget per item: ${range}${currency ? ` ${currency}` : ""}`);
+    }
+    if (preferences.occasions?.length) {
+        lines.push(`Dresses for: ${preferences.occasions.join(", ")}`);
+    }
+
+    return lines.length > 0 ? `What the user told you about themselves:\n- ${lines.join("\n- ")}` : null;
+}
+
+// Adapter for any server implementing the OpenAI /chat/completions API
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ChatProvider {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+    const systemPrompt = options.systemPrompt ?? MARIN_SYSTEM_PROMPT;
+    const timeoutMs = options.timeoutMs ?? 30_000;
+
+    function initialMessages(request: ChatRequest): OpenAIMessage[] {
+        const preferences = describePreferences(request.context?.preferences);
+        return [
+            { role: "system", content: systemPrompt },
+            ...(preferences ? [{ role: "system" as const, content: preferences }] : []),
+            ...request.messages.map(message => ({ role: message.role, content: message.text })),
+        ];
+    }
+
+    async function post(
+        request: ChatRequest,
+        messages: OpenAIMessage[],
+        stream: boolean,
+        providerOptions?: ChatProviderOptions,
+    ): Promise<Response> {
+        const signals = [AbortSignal.timeout(timeoutMs)];
+        if (providerOptions?.signal) {
+            signals.push(providerOptions.signal);
+        }
+        const tools = providerOptions?.tools ?? [];
+
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/chat/completions`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model: options.upstreamModel ?? request.model,
+                    messages,
+                    stream,
+                    ...(tools.length > 0 ? {
+                        tools: tools.map(tool => ({
+                            type: "function",
+                            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                        })),
+                    } : {}),
+                }),
+                signal: AbortSignal.any(signals),
+            });
+        } catch (error) {
+            throw new ChatProviderError("Chat provider request failed", { cause: error });
+        }
+
+        if (!response.ok) {
+            throw new ChatProviderError(`Chat provider responded with status ${response.status}`);
+        }
+
+        return response;
+    }
+
+    return {
+        name: "openai-compatible",
+        // The upstream is reachable and accepts the key if it lists its models
+        async check(signal) {
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/models`, {
+                    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+                    signal,
+                });
+            } catch (error) {
+                throw new ChatProviderError("Chat provider request failed", { cause: error });
+            }
+            if (!response.ok) {
+                throw new ChatProviderError(`Chat provider responded with status ${response.status}`);
+            }
+        },
+        async generate(request, providerOptions) {
+            const tools = providerOptions?.tools ?? [];
+            const messages = initialMessages(request);
+
+            for (let round = 0; ; round++) {
+                const response = await post(request, messages, false, providerOptions);
+                const message = await readCompletionMessage(response);
+
+                // Run the requested tools and ask again with their results
+                const toolCalls = message?.tool_calls ?? [];
+                if (toolCalls.length > 0 && tools.length > 0 && round < MAX_TOOL_ROUNDS) {
+                    messages.push({ role: "assistant", content: message?.content ?? null, tool_calls: toolCalls });
+                    for (const call of toolCalls) {
+                        const output = await runTool(tools, call, providerOptions);
+                        messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(output) });
+                    }
+                    continue;
+                }
+
+                const content = message?.content;
+                if (typeof content !== "string") {
+                    throw new ChatProviderError("Chat provider returned no message content");
+                }
+
+                return { role: "assistant", content };
+            }
+        },
+        async *stream(request, providerOptions) {
+            const tools = providerOptions?.tools ?? [];
+            const messages = initialMessages(request);
+
+            for (let round = 0; ; round++) {
+                const response = await post(request, messages, true, providerOptions);
+                if (!response.body) {
+                    throw new ChatProviderError("Chat provider returned an empty stream");
+                }
+
+                // Tool call arguments arrive in fragments, keyed by index
+                const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+                let content = "";
+
+                for await (const data of readSSEData(response.body)) {
+                    if (data === "[DONE]") {
+                        break;
+                    }
+
+                    const delta = readChunkDelta(data);
+                    if (delta?.reasoning_content) {
+                        yield { type: "reasoning-delta", delta: delta.reasoning_content };
+                    }
+                    if (delta?.content) {
+                        content += delta.content;
+                        yield { type: "text-delta", delta: delta.content };
+                    }
+                    for (const call of delta?.tool_calls ?? []) {
+                        const existing = toolCalls.get(call.index) ?? { id: "", name: "", arguments: "" };
+                        existing.id = call.id ?? existing.id;
+                        existing.name += call.function?.name ?? "";
+                        existing.arguments += call.function?.arguments ?? "";
+                        toolCalls.set(call.index, existing);
+                    }
+                }
+
+                const calls: OpenAIToolCall[] = [...toolCalls.values()].map(call => ({
+                    id: call.id || crypto.randomUUID(),
+                    type: "function",
+                    function: { name: call.name, arguments: call.arguments },
+                }));
+                for (const call of calls) {
+                    yield {
+                        type: "tool-call",
+                        toolCallId: call.id,
+                        toolName: call.function.name,
+                        input: parseToolInput(call.function.arguments),
+                    };
+                }
+
+                // Without server-side tools the calls are left to the client
+                if (calls.length === 0 || tools.length === 0 || round >= MAX_TOOL_ROUNDS) {
+                    return;
+                }
+
+                messages.push({ role: "assistant", content: content || null, tool_calls: calls });
+                for (const call of calls) {
+                    const output = await runTool(tools, call, providerOptions);
+                    yield { type: "tool-result", toolCallId: call.id, output };
+                    messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(output) });
+                }
+            }
+        },
+    };
+}
+
+// Build the registry from environment variables.
+// CHAT_OPENAI_BASE_URL enables the OpenAI-compatible adapter for the comma-separated CHAT_OPENAI_MODELS.
+export function createChatProviderRegistry(
+    env: Record<string, string | undefined> = Bun.env,
+    defaultModel: string | undefined = env.CHAT_DEFAULT_MODEL,
+): ChatProviderRegistry {
+    const registry = new ChatProviderRegistry(defaultModel);
+    registry.register("local", createLocalChatProvider({
+        streamDelayMs: Number(env.CHAT_LOCAL_STREAM_DELAY_MS ?? 0),
+    }));
+
+    if (env.CHAT_OPENAI_BASE_URL) {
+        const provider = createOpenAICompatibleProvider({
+            baseUrl: env.CHAT_OPENAI_BASE_URL,
+            apiKey: env.CHAT_OPENAI_API_KEY,
+        });
+        const models = (env.CHAT_OPENAI_MODELS ?? "gpt-4o")
+            .split(",")
+            .map(model => model.trim())
+            .filter(Boolean);
+        for (const model of models) {
+            registry.register(model, provider);
+        }
+    }
+
+    return registry;
+}
@@ -0,0 +1,192 @@
+import { boundingBoxSchema } from "@shared/clothing";
+
+// Clothing recognizers, selected by CLOTHING_RECOGNIZER
+
+export interface RecognitionOptions {
+    signal?: AbortSignal;
+}
+
+export interface ClothingRecognizer {
+    readonly name: string;
+    // Items found in the image, most confident first
+    recognize(image: File, options?: RecognitionOptions): Promise<ClothingItem[]>;
+}
+
+// Recognizer failed to analyze the image
+export class ClothingRecognizerError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "ClothingRecognizerError";
+    }
+}
+
+// Garments the recognizers know about; also the zero-shot labels sent to CLIP-style services
+export const CLOTHING_CATALOG: ReadonlyArray<{ name: string; category: string }> = [
+    { name: "t-shirt", category: "tops" },
+    { name: "blouse", category: "tops" },
+    { name: "hoodie", category: "tops" },
+    { name: "sweater", category: "tops" },
+    { name: "denim jacket", category: "outerwear" },
+    { name: "trench coat", category: "outerwear" },
+    { name: "puffer jacket", category: "outerwear" },
+    { name: "jeans", category: "bottoms" },
+    { name: "slacks", category: "bottoms" },
+    { name: "pleated skirt", category: "bottoms" },
+    { name: "shorts", category: "bottoms" },
+    { name: "sundress", category: "dresses" },
+    { name: "sneakers", category: "shoes" },
+    { name: "boots", category: "shoes" },
+    { name: "loafers", category: "shoes" },
+    { name: "beret", category: "accessories" },
+    { name: "tote bag", category: "accessories" },
+];
+
+export const CLOTHING_COLORS = ["black", "white", "gray", "navy", "blue", "red", "pink", "beige", "brown", "green", "yellow", "purple"];
+
+export const CLOTHING_STYLES = ["casual", "street", "formal", "sporty", "vintage", "kawaii", "minimal"];
+
+function roundConfidence(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Deterministic recognizer for tests and offline development: the same image always yields the same items
+export function createLocalClothingRecognizer(): ClothingRecognizer {
+    return {
+        name: "local",
+        async recognize(image) {
+            const digest = Bun.hash.crc32(new Uint8Array(await image.arrayBuffer()));
+            const count = 1 + (digest % 3);
+
+            // Rank the catalog by a per-image hash of each entry and keep the top few
+            const items: ClothingItem[] = CLOTHING_CATALOG
+                .map(entry => ({ entry, key: Bun.hash.crc32(`${digest}:${entry.name}`) }))
+                .sort((a, b) => a.key - b.key)
+                .slice(0, count)
+                .map(({ entry, key }) => ({
+                    name: entry.name,
+                    category: entry.category,
+                    confidence: roundConfidence(0.6 + ((key & 0xff) / 255) * 0.35),
+                    color: CLOTHING_COLORS[key % CLOTHING_COLORS.length],
+                    style: CLOTHING_STYLES[digest % CLOTHING_STYLES.length],
+                }));
+
+            return items.sort((a, b) => b.confidence - a.confidence);
+        },
+    };
+}
+
+export interface HttpClothingRecognizerOptions {
+    baseUrl: string;                // CLIP-style zero-shot classification service
+    apiKey?: string;
+    minConfidence?: number;         // Drop items scoring below this (default 0.2)
+    maxItems?: number;              // Default 3
+    timeoutMs?: number;
+}
+
+// Response of POST {baseUrl}/classify: one probability per label, in the order the labels were sent.
+// Services that can locate garments may also send `boxes`, one per item label (null where not found).
+interface ClassifyResponse {
+    scores?: {
+        item?: number[];
+        color?: number[];
+        style?: number[];
+    };
+    boxes?: unknown[];
+}
+
+function isScoreList(value: unknown, length: number): value is number[] {
+    return Array.isArray(value) && value.length === length && value.every(score => typeof score === "number");
+}
+
+// The box sent for the label at `index`, if the service sent a valid one
+function boxAt(boxes: unknown[] | undefined, index: number): BoundingBox | undefined {
+    const result = boundingBoxSchema.safeParse(boxes?.[index]);
+    return result.success ? result.data : undefined;
+}
+
+function argmax(scores: number[]): number {
+    return scores.reduce((best, score, index) => score > scores[best]! ? index : best, 0);
+}
+
+// Adapter for a CLIP-style HTTP service that scores the image against label sets for garments, colors and styles
+export function createHttpClothingRecognizer(options: HttpClothingRecognizerOptions): ClothingRecognizer {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+    const minConfidence = options.minConfidence ?? 0.2;
+    const maxItems = options.maxItems ?? 3;
+    const timeoutMs = options.timeoutMs ?? 30_000;
+
+    const labels = {
+        item: CLOTHING_CATALOG.map(entry => `a photo of a ${entry.name}`),
+        color: CLOTHING_COLORS.map(color => `${color} clothing`),
+        style: CLOTHING_STYLES.map(style => `${style} fashion`),
+    };
+
+    return {
+        name: "http",
+        async recognize(image, recognizeOptions) {
+            const form = new FormData();
+            form.append("image", image, image.name || "image");
+            form.append("labels", JSON.stringify(labels));
+
+            const signals = [AbortSignal.timeout(timeoutMs)];
+            if (recognizeOptions?.signal) {
+                signals.push(recognizeOptions.signal);
+            }
+
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/classify`, {
+                    method: "POST",
+                    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+                    body: form,
+                    signal: AbortSignal.any(signals),
+                });
+            } catch (error) {
+                throw new ClothingRecognizerError("Clothing recognizer request failed", { cause: error });
+            }
+
+            if (!response.ok) {
+                throw new ClothingRecognizerError(`Clothing recognizer responded with status ${response.status}`);
+            }
+
+            const { scores, boxes } = await response.json() as ClassifyResponse;
+            if (!isScoreList(scores?.item, labels.item.length) ||
+                !isScoreList(scores.color, labels.color.length) ||
+                !isScoreList(scores.style, labels.style.length)) {
+                throw new ClothingRecognizerError("Clothing recognizer returned malformed scores");
+            }
+
+            // Color and style are scored for the whole image, so every item shares them
+            const color = CLOTHING_COLORS[argmax(scores.color)];
+            const style = CLOTHING_STYLES[argmax(scores.style)];
+            const boxList = Array.isArray(boxes) ? boxes : undefined;
+
+            return CLOTHING_CATALOG
+                .map((entry, index): ClothingItem => {
+                    const box = boxAt(boxList, index);
+                    const item = { ...entry, confidence: roundConfidence(scores.item![index]!), color, style };
+                    return box ? { ...item, box } : item;
+                })
+                .filter(item => item.confidence >= minConfidence)
+                .sort((a, b) => b.confidence - a.confidence)
+                .slice(0, maxItems);
+        },
+    };
+}
+
+export const CLOTHING_RECOGNIZERS = ["local", "http"] as const;
+export type ClothingRecognizerName = (typeof CLOTHING_RECOGNIZERS)[number];
+
+// The selected recognizer with its options, as validated by lib/config.ts
+export type ClothingRecognizerSettings =
+    | { recognizer: "local" }
+    | { recognizer: "http"; http: HttpClothingRecognizerOptions };
+
+export function createClothingRecognizer(settings: ClothingRecognizerSettings): ClothingRecognizer {
+    switch (settings.recognizer) {
+        case "local":
+            return createLocalClothingRecognizer();
+        case "http":
+            return createHttpClothingRecognizer(settings.http);
+    }
+}
@@ -0,0 +1,311 @@
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { probeAudio } from "../lib/audio";
+
+// Speech-to-text providers, selected by TRANSCRIPTION_PROVIDER
+
+export interface TranscriptionResult {
+    text: string;
+    language?: string;              // ISO 639-1 code when the provider detects it
+    duration?: number;              // Seconds
+    segments: TranscriptionSegment[];
+}
+
+export interface TranscriptionOptions {
+    signal?: AbortSignal;
+    language?: string;              // Hint; providers auto-detect when omitted
+}
+
+export interface TranscriptionProvider {
+    readonly name: string;
+    transcribe(audio: File, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+    // Readiness probe; providers without one are always ready
+    check?(signal?: AbortSignal): Promise<void>;
+}
+
+// Provider failed to produce a transcription
+export class TranscriptionProviderError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "TranscriptionProviderError";
+    }
+}
+
+function extensionFor(mimeType: string): string {
+    if (mimeType.includes("wav")) return "wav";
+    if (mimeType.includes("mpeg")) return "mp3";
+    if (mimeType.includes("mp4")) return "m4a";
+    return "webm";
+}
+
+function joinSegments(segments: TranscriptionSegment[]): string {
+    return segments.map(segment => segment.text.trim()).filter(Boolean).join(" ");
+}
+
+export interface FixtureTranscriptionOptions {
+    text?: string;                  // Always return this text instead of a canned sentence
+    language?: string;
+}
+
+// Length of the recording in seconds, if its container can be read
+function measuredDuration(bytes: Uint8Array): number | null {
+    try {
+        return probeAudio(bytes).duration;
+    } catch {
+        return null;
+    }
+}
+
+// Deterministic provider for tests and offline development: the same audio always yields the same result
+export function createFixtureTranscriptionProvider(options: FixtureTranscriptionOptions = {}): TranscriptionProvider {
+    const mockTranscriptions = [
+        "Hello, this is a test transcription of the audio file.",
+        "Can you hear me clearly? I'm testing the audio transcription feature.",
+        "This is another example of what a transcribed audio message might look like.",
+        "The weather is really nice today, don't you think?",
+        "I'm excited to try out this new chat application with voice features.",
+    ];
+
+    return {
+        name: "fixture",
+        async transcribe(audio) {
+            const bytes = new Uint8Array(await audio.arrayBuffer());
+            const digest = Bun.hash.crc32(bytes);
+            const text = options.text ?? mockTranscriptions[digest % mockTranscriptions.length] as string;
+
+            // The speech fills the whole recording; when the container doesn't give its length,
+            // pretend speech runs at roughly 2.5 words per second
+            const words = text.split(/\s+/).filter(Boolean);
+            const duration = measuredDuration(bytes) ?? Math.round((words.length / 2.5) * 100) / 100;
+
+            return {
+                text,
+                language: options.language ?? "en",
+                duration,
+                segments: [{ start: 0, end: duration, text }],
+            };
+        },
+    };
+}
+
+export interface CommandTranscriptionOptions {
+    binary: string;                 // Executable name on PATH or absolute path, e.g. whisper-cli
+    modelPath?: string;
+    // Argument template; {input}, {output}, {model} and {language} are substituted.
+    // The command must write whisper.cpp-style JSON to {output}.json.
+    args?: string[];
+    timeoutMs?: number;
+}
+
+export const WHISPER_CPP_ARGS = ["-m", "{model}", "-f", "{input}", "-l", "{language}", "-oj", "-of", "{output}", "-np"];
+
+// Whether an argument template passes the model, and so needs modelPath set
+export function usesModel(args: readonly string[]): boolean {
+    return args.some(arg => arg.includes("{model}"));
+}
+
+interface WhisperCppOutput {
+    result?: { language?: string };
+    transcription?: Array<{ offsets?: { from: number; to: number }; text?: string }>;
+}
+
+// Runs a local speech-to-text CLI (whisper.cpp by default) on a temporary copy of the upload
+export function createCommandTranscriptionProvider(options: CommandTranscriptionOptions): TranscriptionProvider {
+    const argsTemplate = options.args ?? WHISPER_CPP_ARGS;
+    const timeoutMs = options.timeoutMs ?? 60_000;
+
+    return {
+        name: "command",
+        // The binary must be runnable and the model, if the arguments pass one, present
+        async check() {
+            if (!Bun.which(options.binary)) {
+                throw new TranscriptionProviderError(`Transcription command not found: ${options.binary}`);
+            }
+            if (usesModel(argsTemplate) && !options.modelPath) {
+                throw new TranscriptionProviderError("Transcription arguments pass {model}, but no model path is configured");
+            }
+            if (options.modelPath && !(await Bun.file(options.modelPath).exists())) {
+                throw new TranscriptionProviderError(`Transcription model not found: ${options.modelPath}`);
+            }
+        },
+        async transcribe(audio, transcribeOptions) {
+            const base = join(tmpdir(), `kawaii-transcribe-${crypto.randomUUID()}`);
+            const input = `${base}.${extensionFor(audio.type)}`;
+            const substitutions: Record<string, string> = {
+                input,
+                output: base,
+                model: options.modelPath ?? "",
+                language: transcribeOptions?.language ?? "auto",
+            };
+            const args = argsTemplate.map(arg => arg.replace(/\{(\w+)\}/g, (match, key: string) => substitutions[key] ?? match));
+
+            try {
+                await Bun.write(input, audio);
+
+                let proc: Bun.Subprocess<"ignore", "ignore", "pipe">;
+                try {
+                    proc = Bun.spawn([options.binary, ...args], {
+                        stdin: "ignore",
+                        stdout: "ignore",
+                        stderr: "pipe",
+                        timeout: timeoutMs,
+                        signal: transcribeOptions?.signal,
+                    });
+                } catch (error) {
+                    throw new TranscriptionProviderError(`Failed to start ${options.binary}`, { cause: error });
+                }
+
+                // Read stderr while waiting: whisper.cpp logs more than a pipe buffer holds and would block
+                const [stderr, exitCode] = await Promise.all([
+                    new Response(proc.stderr).text(),
+                    proc.exited,
+                ]);
+                if (exitCode !== 0) {
+                    throw new TranscriptionProviderError(`${options.binary} exited with code ${exitCode}: ${stderr.trim().slice(-500)}`);
+                }
+
+                const outputFile = Bun.file(`${base}.json`);
+                if (!(await outputFile.exists())) {
+                    throw new TranscriptionProviderError(`${options.binary} did not write ${base}.json`);
+                }
+
+                const output = await outputFile.json() as WhisperCppOutput;
+                const segments: TranscriptionSegment[] = (output.transcription ?? []).map(entry => ({
+                    start: (entry.offsets?.from ?? 0) / 1000,
+                    end: (entry.offsets?.to ?? 0) / 1000,
+                    text: (entry.text ?? "").trim(),
+                }));
+
+                return {
+                    text: joinSegments(segments),
+                    language: output.result?.language,
+                    duration: segments.at(-1)?.end,
+                    segments,
+                };
+            } finally {
+                await Promise.all([
+                    rm(input, { force: true }),
+                    rm(`${base}.json`, { force: true }),
+                ]);
+            }
+        },
+    };
+}
+
+export interface OpenAITranscriptionOptions {
+    baseUrl: string;                // e.g. https://api.openai.com/v1 or a local stand-in server
+    apiKey?: string;
+    model?: string;
+    timeoutMs?: number;
+}
+
+interface OpenAIVerboseTranscription {
+    text?: string;
+    language?: string;
+    duration?: number;
+    segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+// Languages come back as English names from the OpenAI API, but we expose ISO codes
+const LANGUAGE_CODES: Record<string, string> = {
+    english: "en",
+    japanese: "ja",
+    chinese: "zh",
+    korean: "ko",
+    french: "fr",
+    german: "de",
+    spanish: "es",
+};
+
+// Adapter for any server implementing the OpenAI /audio/transcriptions API
+export function createOpenAITranscriptionProvider(options: OpenAITranscriptionOptions): TranscriptionProvider {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+    const timeoutMs = options.timeoutMs ?? 60_000;
+
+    return {
+        name: "openai-compatible",
+        // The upstream is reachable and accepts the key if it lists its models
+        async check(signal) {
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/models`, {
+                    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+                    signal,
+                });
+            } catch (error) {
+                throw new TranscriptionProviderError("Transcription provider request failed", { cause: error });
+            }
+            if (!response.ok) {
+                throw new TranscriptionProviderError(`Transcription provider responded with status ${response.status}`);
+            }
+        },
+        async transcribe(audio, transcribeOptions) {
+            const form = new FormData();
+            form.append("file", audio, audio.name || `audio.${extensionFor(audio.type)}`);
+            form.append("model", options.model ?? "whisper-1");
+            form.append("response_format", "verbose_json");
+            if (transcribeOptions?.language) {
+                form.append("language", transcribeOptions.language);
+            }
+
+            const signals = [AbortSignal.timeout(timeoutMs)];
+            if (transcribeOptions?.signal) {
+                signals.push(transcribeOptions.signal);
+            }
+
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/audio/transcriptions`, {
+                    method: "POST",
+                    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+                    body: form,
+                    signal: AbortSignal.any(signals),
+                });
+            } catch (error) {
+                throw new TranscriptionProviderError("Transcription provider request failed", { cause: error });
+            }
+
+            if (!response.ok) {
+                throw new TranscriptionProviderError(`Transcription provider responded with status ${response.status}`);
+            }
+
+            const result = await response.json() as OpenAIVerboseTranscription;
+            if (typeof result.text !== "string") {
+                throw new TranscriptionProviderError("Transcription provider returned no text");
+            }
+
+            const language = result.language?.toLowerCase();
+            return {
+                text: result.text.trim(),
+                language: language ? LANGUAGE_CODES[language] ?? language : undefined,
+                duration: result.duration,
+                segments: (result.segments ?? []).map(segment => ({
+                    start: segment.start,
+                    end: segment.end,
+                    text: segment.text.trim(),
+                })),
+            };
+        },
+    };
+}
+
+export const TRANSCRIPTION_PROVIDERS = ["fixture", "command", "openai"] as const;
+export type TranscriptionProviderName = (typeof TRANSCRIPTION_PROVIDERS)[number];
+
+// The selected provider with its options, as validated by lib/config.ts
+export type TranscriptionSettings =
+    | { provider: "fixture"; fixture: FixtureTranscriptionOptions }
+    | { provider: "command"; command: CommandTranscriptionOptions }
+    | { provider: "openai"; openai: OpenAITranscriptionOptions };
+
+export function createTranscriptionProvider(settings: TranscriptionSettings): TranscriptionProvider {
+    switch (settings.provider) {
+        case "fixture":
+            return createFixtureTranscriptionProvider(settings.fixture);
+        case "command":
+            return createCommandTranscriptionProvider(settings.command);
+        case "openai":
+            return createOpenAITranscriptionProvider(settings.openai);
+    }
+}
@@ -0,0 +1,200 @@
+// Weather providers, selected by WEATHER_PROVIDER
+
+export interface WeatherOptions {
+    signal?: AbortSignal;
+}
+
+export interface WeatherProvider {
+    readonly name: string;
+    // Current conditions and a daily forecast for the coordinates
+    fetch(latitude: number, longitude: number, options?: WeatherOptions): Promise<WeatherReport>;
+}
+
+// Provider failed to produce a report
+export class WeatherProviderError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "WeatherProviderError";
+    }
+}
+
+function isoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+export interface FixtureWeatherOptions {
+    city?: string;
+    country?: string;
+    forecastDays?: number;
+}
+
+// Deterministic provider for tests and offline development: the same coordinates always get the same weather
+export function createFixtureWeatherProvider(options: FixtureWeatherOptions = {}): WeatherProvider {
+    const conditions = ["sunny", "partly cloudy", "cloudy", "rainy", "sunny", "drizzle"];
+    const forecastDays = options.forecastDays ?? 5;
+
+    return {
+        name: "fixture",
+        async fetch(latitude, longitude) {
+            const seed = Bun.hash.crc32(`${latitude.toFixed(2)},${longitude.toFixed(2)}`);
+            const today = new Date();
+
+            const forecast = Array.from({ length: forecastDays }, (_, day) => {
+                const daySeed = (seed >>> day) + day;
+                const date = new Date(today);
+                date.setUTCDate(today.getUTCDate() + day);
+                return {
+                    date: isoDate(date),
+                    temperature: 8 + (daySeed % 22),
+                    condition: conditions[daySeed % conditions.length]!,
+                    precipitation: (daySeed % 10) / 10,
+                };
+            });
+
+            return {
+                temperature: forecast[0]?.temperature ?? 20,
+                condition: forecast[0]?.condition ?? "sunny",
+                humidity: 40 + (seed % 50),
+                windSpeed: seed % 25,
+                location: {
+                    city: options.city ?? "Tokyo",
+                    country: options.country ?? "Japan",
+                    latitude,
+                    longitude,
+                },
+                forecast,
+                updatedAt: today.toISOString(),
+            };
+        },
+    };
+}
+
+export interface OpenMeteoWeatherOptions {
+    baseUrl?: string;               // Default https://api.open-meteo.com/v1; any compatible server works
+    forecastDays?: number;
+    timeoutMs?: number;
+}
+
+interface OpenMeteoResponse {
+    timezone?: string;
+    current?: {
+        time?: string;
+        temperature_2m?: number;
+        relative_humidity_2m?: number;
+        weather_code?: number;
+        wind_speed_10m?: number;
+    };
+    daily?: {
+        time?: string[];
+        weather_code?: number[];
+        temperature_2m_max?: number[];
+        precipitation_probability_max?: Array<number | null>;
+    };
+}
+
+// WMO weather interpretation codes, as used by Open-Meteo
+export function describeWeatherCode(code: number): string {
+    if (code === 0) return "sunny";
+    if (code <= 2) return "partly cloudy";
+    if (code === 3) return "cloudy";
+    if (code === 45 || code === 48) return "foggy";
+    if (code >= 51 && code <= 57) return "drizzle";
+    if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return "rainy";
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "snowy";
+    if (code >= 95) return "stormy";
+    return "cloudy";
+}
+
+// Open-Meteo has no reverse geocoding; the timezone ("Asia/Tokyo") is the closest thing to a place name
+function cityFromTimezone(timezone: string | undefined): string {
+    const city = timezone?.split("/").at(-1)?.replace(/_/g, " ");
+    return city && city !== "GMT" && city !== "UTC" ? city : "Unknown";
+}
+
+// Adapter for the Open-Meteo forecast API
+export function createOpenMeteoWeatherProvider(options: OpenMeteoWeatherOptions = {}): WeatherProvider {
+    const baseUrl = (options.baseUrl ?? "https://api.open-meteo.com/v1").replace(/\/+$/, "");
+    const forecastDays = options.forecastDays ?? 5;
+    const timeoutMs = options.timeoutMs ?? 10_000;
+
+    return {
+        name: "open-meteo",
+        async fetch(latitude, longitude, fetchOptions) {
+            const params = new URLSearchParams({
+                latitude: latitude.toString(),
+                longitude: longitude.toString(),
+                current: "temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m",
+                daily: "weather_code,temperature_2m_max,precipitation_probability_max",
+                timezone: "auto",
+                forecast_days: forecastDays.toString(),
+            });
+
+            const signals = [AbortSignal.timeout(timeoutMs)];
+            if (fetchOptions?.signal) {
+                signals.push(fetchOptions.signal);
+            }
+
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/forecast?${params}`, { signal: AbortSignal.any(signals) });
+            } catch (error) {
+                throw new WeatherProviderError("Weather provider request failed", { cause: error });
+            }
+
+            if (!response.ok) {
+                throw new WeatherProviderError(`Weather provider responded with status ${response.status}`);
+            }
+
+            const result = await response.json() as OpenMeteoResponse;
+            const current = result.current;
+            if (typeof current?.temperature_2m !== "number" || typeof current.weather_code !== "number") {
+                throw new WeatherProviderError("Weather provider returned no current conditions");
+            }
+
+            const daily = result.daily ?? {};
+            const forecast = (daily.time ?? []).map((date, day) => {
+                const precipitation = daily.precipitation_probability_max?.[day];
+                return {
+                    date,
+                    temperature: daily.temperature_2m_max?.[day] ?? current.temperature_2m!,
+                    condition: describeWeatherCode(daily.weather_code?.[day] ?? current.weather_code!),
+                    precipitation: typeof precipitation === "number" ? precipitation / 100 : undefined,
+                };
+            });
+
+            return {
+                temperature: current.temperature_2m,
+                condition: describeWeatherCode(current.weather_code),
+                humidity: current.relative_humidity_2m ?? 0,
+                windSpeed: current.wind_speed_10m ?? 0,
+                location: {
+                    city: cityFromTimezone(result.timezone),
+                    country: "",
+                    latitude,
+                    longitude,
+                },
+                forecast,
+                updatedAt: new Date().toISOString(),
+            };
+        },
+    };
+}
+
+export const WEATHER_PROVIDERS = ["fixture", "open-meteo"] as const;
+export type WeatherProviderName = (typeof WEATHER_PROVIDERS)[number];
+
+// Build the selected provider (WEATHER_PROVIDER by default), configured from environment variables
+export function createWeatherProvider(
+    env: Record<string, string | undefined> = Bun.env,
+    provider: string = env.WEATHER_PROVIDER ?? "fixture",
+): WeatherProvider {
+
+    switch (provider) {
+        case "fixture":
+            return createFixtureWeatherProvider({ city: env.WEATHER_FIXTURE_CITY, country: env.WEATHER_FIXTURE_COUNTRY });
+        case "open-meteo":
+            return createOpenMeteoWeatherProvider({ baseUrl: env.WEATHER_OPEN_METEO_BASE_URL });
+        default:
+            throw new Error(`Unknown WEATHER_PROVIDER "${provider}". Expected fixture or open-meteo`);
+    }
+}
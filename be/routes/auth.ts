@@ -0,0 +1,49 @@
+import { credentialsSchema, type Credentials } from "@shared/auth";
+import { validate } from "@shared/validation";
+import { HttpError } from "../lib/errors";
+import { jsonResponse, readJson } from "../lib/http";
+import type { Router } from "../lib/router";
+import { clearedSessionCookie, sessionCookie, type AuthService } from "../services/auth";
+
+// /api/auth endpoints: sign-up, sign-in, sign-out and the current user
+
+async function readCredentials(req: Request): Promise<Credentials> {
+    const result = validate(credentialsSchema, await readJson(req));
+    if (!result.success) {
+        throw new HttpError(400, "missing_credentials", "Username and password are required", { fields: result.fields });
+    }
+    return result.data;
+}
+
+function authResponse(auth: AuthResponse, status: number, secure: boolean): Response {
+    const response = jsonResponse(auth, status);
+    response.headers.append("Set-Cookie", sessionCookie(auth, secure));
+    return response;
+}
+
+export function registerAuthRoutes(router: Router, auth: AuthService): void {
+    const isSecure = (url: URL) => url.protocol === "https:";
+
+    router.post("/api/auth/signup", async (req, { url }) => {
+        const { username, password } = await readCredentials(req);
+        return authResponse(await auth.signUp(username, password), 201, isSecure(url));
+    });
+
+    router.post("/api/auth/signin", async (req, { url }) => {
+        const { username, password } = await readCredentials(req);
+        return authResponse(await auth.signIn(username, password), 200, isSecure(url));
+    });
+
+    router.post("/api/auth/signout", () => new Response(null, {
+        status: 204,
+        headers: { "Set-Cookie": clearedSessionCookie() },
+    }));
+
+    router.get("/api/auth/me", req => {
+        const user = auth.authenticate(req);
+        if (!user) {
+            throw new HttpError(401, "unauthenticated", "Not signed in");
+        }
+        return jsonResponse({ user });
+    });
+}
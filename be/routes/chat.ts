@@ -0,0 +1,65 @@
+import { chatRequestSchema } from "@shared/chat";
+import { HttpError } from "../lib/errors";
+import { jsonResponse, readJson } from "../lib/http";
+import type { Router } from "../lib/router";
+import { parseBody } from "../lib/validation";
+import { createUIMessageStreamResponse, toChatMessages } from "../lib/ui-message-stream";
+import { ChatProviderError, type ChatProviderRegistry, type ChatTool } from "../providers/chat";
+
+// POST /api/chat, as a JSON reply or an AI SDK UI message stream
+
+// Streaming is requested with `stream: true`, `?stream=true` or an SSE Accept header
+function wantsStream(req: Request, url: URL, body: ChatRequestBody): boolean {
+    const streamParam = url.searchParams.get("stream");
+    return body.stream === true ||
+        streamParam === "true" ||
+        streamParam === "1" ||
+        (req.headers.get("accept") ?? "").includes("text/event-stream");
+}
+
+// Adds what the server knows for one request, e.g. the signed-in user's stored context,
+// and picks the server-side tools the model may call
+export type ChatRequestPreparer = (req: Request, request: ChatRequest) => { request: ChatRequest; tools: ChatTool[] };
+
+export const noChatPreparation: ChatRequestPreparer = (_req, request) => ({ request, tools: [] });
+
+export function registerChatRoutes(
+    router: Router,
+    chatProviders: ChatProviderRegistry,
+    prepare: ChatRequestPreparer = noChatPreparation,
+): void {
+    router.post("/api/chat", async (req, { url, log }) => {
+        const body = parseBody(chatRequestSchema, await readJson(req));
+
+        const { model, provider } = chatProviders.resolve(body.model);
+        const { request: chatRequest, tools } = prepare(req, { ...body, model, messages: toChatMessages(body.messages) });
+        const stream = wantsStream(req, url, body);
+        log.info("chat request", {
+            model,
+            stream,
+            messages: chatRequest.messages.length,
+            tools: tools.map(tool => tool.name),
+            lastMessage: log.redact(chatRequest.messages.at(-1)?.text),
+        });
+
+        if (stream) {
+            return createUIMessageStreamResponse(
+                signal => provider.stream(chatRequest, { signal, tools, log }),
+                {
+                    signal: req.signal,
+                    onError: error => log.error("chat stream failed", { model, error }),
+                }
+            );
+        }
+
+        try {
+            return jsonResponse(await provider.generate(chatRequest, { signal: req.signal, tools, log }));
+        } catch (error) {
+            if (error instanceof ChatProviderError) {
+                log.error("chat provider failed", { model, error });
+                throw new HttpError(502, "provider_unavailable", "Chat provider unavailable");
+            }
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,124 @@
+import { MAX_IMAGE_SIZE, validateImageFile, verifyImageSignature } from "../lib/image";
+import { jsonResponse } from "../lib/http";
+import type { Logger } from "../lib/logger";
+import { MULTIPART_OVERHEAD_BYTES, MultipartError, readMultipart, type MultipartBody } from "../lib/multipart";
+import type { RawImage } from "../lib/raster";
+import type { Router } from "../lib/router";
+import type { ClothingRecognizer } from "../providers/recognition";
+import { decodeForPalette, extractPalette } from "../services/palette";
+
+// POST /api/image/upload. Replies always use the ImageUploadResponse shape so the client can match them by messageId.
+
+function imageError(error: string | undefined, messageId: string | undefined, status: number): Response {
+    const body: ImageUploadResponse = { success: false, recognitionResults: [], response: "", error, messageId };
+    return jsonResponse(body, status);
+}
+
+// Marin's reply about what she spotted
+function describeItems(items: ClothingItem[]): string {
+    if (items.length === 0) {
+        return "Hmm, I couldn't spot any clothes in that photo. Could you try one with the outfit in full view?";
+    }
+
+    const names = items.map(item => item.color ? `${item.color} ${item.name}` : item.name);
+    const list = names.length === 1
+        ? names[0]
+        : `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`;
+    const style = items[0]?.style ? ` Very ${items[0].style}!` : "";
+
+    return `Ooh, I spotted: ${list}!${style} Want me to suggest what to pair with ${items.length === 1 ? "it" : "them"}?`;
+}
+
+// The photo decoded for color analysis; null when its colors cannot be measured
+async function decodeColors(image: File, log: Logger): Promise<RawImage | null> {
+    try {
+        return await decodeForPalette(image);
+    } catch (error) {
+        log.warn("color analysis skipped", { error });
+        return null;
+    }
+}
+
+// Items located by the recognizer get the palette measured inside their box. A lone item without
+// a box gets the whole photo's palette. Several of them can't split the photo's colors between
+// them, so those come back once at the top level, and the items' guessed colors are dropped rather
+// than left to contradict it. A measured palette always sets `color` to its largest color.
+function measureColors(recognized: ClothingItem[], decoded: RawImage | null): { items: ClothingItem[]; palette?: PaletteColor[] } {
+    if (!decoded) {
+        return { items: recognized };
+    }
+
+    const located = recognized.map(item => {
+        const palette = item.box ? extractPalette(decoded, item.box) : [];
+        return palette.length > 0 ? { ...item, color: palette[0]!.name, palette } : item;
+    });
+    if (located.every(item => item.palette)) {
+        return { items: located };
+    }
+
+    const palette = extractPalette(decoded);
+    if (palette.length === 0) {
+        return { items: located };
+    }
+    if (located.length === 1) {
+        return { items: [{ ...located[0]!, color: palette[0]!.name, palette }] };
+    }
+
+    const items = located.map(({ color, ...item }) => item.palette ? { ...item, color } : item);
+    return { items, palette };
+}
+
+export function registerImageRoutes(router: Router, recognizer: ClothingRecognizer, maxImageBytes = MAX_IMAGE_SIZE): void {
+    router.post("/api/image/upload", async (req, { url, log }) => {
+        let messageId = url.searchParams.get("messageId") ?? undefined;
+
+        try {
+            let form: MultipartBody;
+            try {
+                form = await readMultipart(req);
+            } catch (parseError) {
+                if (!(parseError instanceof MultipartError)) {
+                    throw parseError;
+                }
+                return imageError(parseError.message, messageId, 400);
+            }
+
+            messageId = form.fields.get("messageId") || messageId;
+
+            const imageFile = form.files.get("image");
+            if (!imageFile) {
+                return imageError("No image file provided", messageId, 400);
+            }
+
+            const validation = validateImageFile(imageFile, maxImageBytes);
+            if (!validation.valid) {
+                return imageError(validation.error, messageId, 400);
+            }
+
+            const signature = await verifyImageSignature(imageFile);
+            if (!signature.valid) {
+                return imageError(signature.error, messageId, 400);
+            }
+
+            try {
+                const recognized = await recognizer.recognize(imageFile, { signal: req.signal });
+
+                const { items, palette } = measureColors(recognized, await decodeColors(imageFile, log));
+
+                return jsonResponse({
+                    success: true,
+                    recognitionResults: items,
+                    response: describeItems(items),
+                    palette,
+                    messageId,
+                } satisfies ImageUploadResponse);
+            } catch (recognitionError) {
+                log.error("clothing recognition failed", { error: recognitionError });
+                return imageError("Service temporarily unavailable", messageId, 503);
+            }
+        } catch (error) {
+            log.error("image upload failed", { error });
+            return imageError("Internal server error", messageId, 500);
+        }
+    }, { maxBodyBytes: maxImageBytes + MULTIPART_OVERHEAD_BYTES });
+}
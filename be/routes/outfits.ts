@@ -0,0 +1,32 @@
+import { colorScoreRequestSchema, recommendationRequestSchema } from "@shared/outfits";
+import { HttpError } from "../lib/errors";
+import { jsonResponse, readJson } from "../lib/http";
+import type { Router } from "../lib/router";
+import { parseBody } from "../lib/validation";
+import type { AuthService } from "../services/auth";
+import { scoreColorHarmony } from "../services/harmony";
+import type { OutfitRecommender } from "../services/recommendations";
+
+// POST /api/outfits/recommend: ranked outfits from the signed-in user's wardrobe
+// POST /api/outfits/score: color harmony of any combination of clothes, no account needed
+
+
+export function registerOutfitRoutes(router: Router, recommender: OutfitRecommender, auth: AuthService): void {
+    router.post("/api/outfits/recommend", async (req) => {
+        const user = auth.authenticate(req);
+        if (!user) {
+            throw new HttpError(401, "unauthenticated", "Not signed in");
+        }
+
+        const request = parseBody(recommendationRequestSchema, await readJson(req));
+        return jsonResponse(await recommender.recommend(user.id, request) satisfies RecommendationResponse);
+    });
+
+    router.post("/api/outfits/score", async (req) => {
+        const request = parseBody(colorScoreRequestSchema, await readJson(req));
+        const harmony = scoreColorHarmony(request.items.map(item => item.color), {
+            favoriteColors: request.preferences?.favoriteColors,
+        });
+        return jsonResponse(harmony satisfies ColorHarmony);
+    });
+}
@@ -0,0 +1,31 @@
+import { preferencesUpdateSchema } from "@shared/preferences";
+import { HttpError } from "../lib/errors";
+import { jsonResponse, readJson } from "../lib/http";
+import type { Router } from "../lib/router";
+import { parseBody } from "../lib/validation";
+import type { AuthService } from "../services/auth";
+import type { PreferencesStore } from "../services/preferences";
+
+// GET/PUT /api/preferences: the signed-in user's fashion preferences and onboarding status
+
+export function registerPreferencesRoutes(router: Router, store: PreferencesStore, auth: AuthService): void {
+    const requireUser = (req: Request): AuthUser => {
+        const user = auth.authenticate(req);
+        if (!user) {
+            throw new HttpError(401, "unauthenticated", "Not signed in");
+        }
+        return user;
+    };
+
+    router.get("/api/preferences", (req) => {
+        const user = requireUser(req);
+        return jsonResponse(store.get(user.id) satisfies PreferencesResponse);
+    });
+
+    router.put("/api/preferences", async (req) => {
+        const user = requireUser(req);
+
+        const update = parseBody(preferencesUpdateSchema, await readJson(req));
+        return jsonResponse(store.put(user.id, update) satisfies PreferencesResponse);
+    });
+}
@@ -0,0 +1,29 @@
+import { HttpError } from "../lib/errors";
+import { jsonResponse } from "../lib/http";
+import type { Router } from "../lib/router";
+import type { PresenceTracker } from "../services/presence";
+import { DEFAULT_ROOM, isValidRoomName, normalizeRoomName } from "../services/rooms";
+
+// GET /api/rooms and GET /api/rooms/:room
+
+function roomInfo(presence: PresenceTracker, name: string): RoomInfo {
+    const users = presence.users(name);
+    return { name, userCount: users.length, users };
+}
+
+export function registerRoomRoutes(router: Router, presence: PresenceTracker): void {
+    router.get("/api/rooms", () => {
+        // The default room is always listed, even when empty
+        const names = new Set([DEFAULT_ROOM, ...presence.roomNames()]);
+        const rooms = [...names].sort().map(name => roomInfo(presence, name));
+        return jsonResponse({ rooms } satisfies RoomListResponse);
+    });
+
+    router.get("/api/rooms/:room", (_req, { params }) => {
+        const room = normalizeRoomName(params.room!);
+        if (!isValidRoomName(room)) {
+            throw new HttpError(400, "invalid_room", "Invalid room name");
+        }
+        return jsonResponse(roomInfo(presence, room));
+    });
+}
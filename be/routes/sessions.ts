@@ -0,0 +1,101 @@
+import { newSessionSchema, sessionUpdateSchema } from "@shared/sessions";
+import { validate, type Schema } from "@shared/validation";
+import { HttpError } from "../lib/errors";
+import { jsonResponse, readJson } from "../lib/http";
+import { pageOptions } from "../lib/pagination";
+import type { Router } from "../lib/router";
+import type { AuthService } from "../services/auth";
+import type { SessionStore } from "../services/sessions";
+
+// /api/sessions CRUD endpoints; every route works on the signed-in user's own sessions
+
+// Full sessions are saved in one request, so allow more than the default body limit
+const MAX_SESSION_BYTES = 10 * 1024 * 1024; // 10MB
+
+// parseBody, but with the invalid_session code this API has always answered bad sessions with
+function parseSession<T>(schema: Schema<T>, body: unknown): T {
+    const result = validate(schema, body);
+    if (!result.success) {
+        throw new HttpError(400, "invalid_session", `Invalid session: ${result.fields.join(", ")}`, {
+            fields: result.fields,
+            issues: result.issues,
+        });
+    }
+    return result.data;
+}
+
+function notFound(id: string): HttpError {
+    return new HttpError(404, "session_not_found", `Session ${id} not found`);
+}
+
+function sessionExists(id: string): HttpError {
+    return new HttpError(409, "session_exists", `Session ${id} already exists`);
+}
+
+export function registerSessionRoutes(router: Router, store: SessionStore, auth: AuthService): void {
+    const requireUser = (req: Request): AuthUser => {
+        const user = auth.authenticate(req);
+        if (!user) {
+            throw new HttpError(401, "unauthenticated", "Not signed in");
+        }
+        return user;
+    };
+
+    router.get("/api/sessions", (req, { url }) => jsonResponse(store.list(requireUser(req).id, pageOptions(url))));
+
+    router.post("/api/sessions", async req => {
+        const user = requireUser(req);
+        const input = parseSession(newSessionSchema, await readJson(req));
+        const session = store.create(user.id, input);
+        if (!session) {
+            throw sessionExists(input.id!);
+        }
+        return jsonResponse(session, 201);
+    }, { maxBodyBytes: MAX_SESSION_BYTES });
+
+    router.get("/api/sessions/:id", (req, { params }) => {
+        const session = store.get(requireUser(req).id, params.id!);
+        if (!session) {
+            throw notFound(params.id!);
+        }
+        return jsonResponse(session);
+    });
+
+    router.put("/api/sessions/:id", async (req, { params }) => {
+        const user = requireUser(req);
+        const id = params.id!;
+        const update = parseSession(sessionUpdateSchema, await readJson(req));
+        if (update.id !== undefined && update.id !== id) {
+            throw new HttpError(400, "invalid_session", "Invalid session: id", { fields: ["id"] });
+        }
+
+        const now = new Date().toISOString();
+        const session = store.save(user.id, {
+            id,
+            messages: update.messages,
+            createdAt: update.createdAt ?? now,
+            lastActivity: update.lastActivity ?? now,
+            context: update.context,
+        });
+        // The id is another user's
+        if (!session) {
+            throw sessionExists(id);
+        }
+        return jsonResponse(session);
+    }, { maxBodyBytes: MAX_SESSION_BYTES });
+
+    router.delete("/api/sessions/:id", (req, { params }) => {
+        if (!store.delete(requireUser(req).id, params.id!)) {
+            throw notFound(params.id!);
+        }
+        return new Response(null, { status: 204 });
+    });
+
+    router.get("/api/sessions/:id/messages", (req, { params, url }) => {
+        const page = store.listMessages(requireUser(req).id, params.id!, pageOptions(url));
+        if (!page) {
+            throw notFound(params.id!);
+        }
+        return jsonResponse(page);
+    });
+}
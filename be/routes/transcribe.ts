@@ -0,0 +1,93 @@
+import { MAX_AUDIO_SIZE, checkAudioFile } from "../lib/audio";
+import { jsonResponse } from "../lib/http";
+import { MULTIPART_OVERHEAD_BYTES, MultipartError, readMultipart, type MultipartBody } from "../lib/multipart";
+import type { Router } from "../lib/router";
+import type { TranscriptionProvider } from "../providers/transcription";
+import type { WaveformService } from "../services/waveform";
+
+// POST /api/transcribe. Replies always use the TranscribeResponse shape so the client can match them by messageId.
+
+function transcribeResponse(body: TranscribeResponse, status: number): Response {
+    return jsonResponse(body, status);
+}
+
+export function registerTranscribeRoutes(
+    router: Router,
+    transcriptionProvider: TranscriptionProvider,
+    maxAudioBytes = MAX_AUDIO_SIZE,
+    waveforms?: WaveformService,
+): void {
+    router.post("/api/transcribe", async (req, { url, log }) => {
+        let messageId = url.searchParams.get("messageId") ?? undefined;
+
+        try {
+            let form: MultipartBody;
+            try {
+                form = await readMultipart(req);
+            } catch (parseError) {
+                if (!(parseError instanceof MultipartError)) {
+                    throw parseError;
+                }
+                return transcribeResponse({
+                    error: parseError.message,
+                    success: false,
+                    messageId,
+                }, 400);
+            }
+
+            messageId = form.fields.get("messageId") || messageId;
+
+            const audioFile = form.files.get("audio");
+            if (!audioFile) {
+                return transcribeResponse({
+                    error: "No audio file provided",
+                    success: false,
+                    messageId,
+                }, 400);
+            }
+
+            const check = await checkAudioFile(audioFile, maxAudioBytes);
+            if (!check.valid) {
+                return transcribeResponse({
+                    error: check.error,
+                    success: false,
+                    messageId,
+                }, 400);
+            }
+
+            try {
+                const language = form.fields.get("language") || undefined;
+                // The waveform is drawn while the transcription runs
+                const [result, waveform] = await Promise.all([
+                    transcriptionProvider.transcribe(audioFile, { signal: req.signal, language }),
+                    waveforms && check.info ? waveforms.generate(audioFile, check.info, { signal: req.signal, log }) : null,
+                ]);
+
+                return transcribeResponse({
+                    transcription: result.text,
+                    language: result.language,
+                    duration: check.info?.duration ?? result.duration,
+                    segments: result.segments,
+                    audio: check.info,
+                    ...(waveform ? { waveform } : {}),
+                    success: true,
+                    messageId,
+                }, 200);
+            } catch (transcriptionError) {
+                log.error("transcription failed", { error: transcriptionError });
+                return transcribeResponse({
+                    error: "Service temporarily unavailable",
+                    success: false,
+                    messageId,
+                }, 503);
+            }
+        } catch (error) {
+            log.error("transcribe failed", { error });
+            return transcribeResponse({
+                error: "Internal server error",
+                success: false,
+                messageId,
+            }, 500);
+        }
+    }, { maxBodyBytes: maxAudioBytes + MULTIPART_OVERHEAD_BYTES });
+}
@@ -0,0 +1,147 @@
+import { SENDER_ROLES } from "@shared/chat";
+import { MAX_AUDIO_SIZE, checkAudioFile } from "../lib/audio";
+import { HttpError } from "../lib/errors";
+import { jsonResponse } from "../lib/http";
+import { MULTIPART_OVERHEAD_BYTES, MultipartError, readMultipart, type MultipartBody } from "../lib/multipart";
+import type { Router } from "../lib/router";
+import type { ChatProvider, ChatProviderRegistry } from "../providers/chat";
+import type { TranscriptionProvider, TranscriptionResult } from "../providers/transcription";
+import type { AuthService } from "../services/auth";
+import type { SessionStore } from "../services/sessions";
+import type { WaveformService } from "../services/waveform";
+import { noChatPreparation, type ChatRequestPreparer } from "./chat";
+
+// POST /api/voice/upload: transcribe a voice message, then reply to it in the context of its chat session.
+// A failed reply does not fail the request: the transcription is still returned, with the reason in replyError.
+
+// Earlier messages sent to the chat provider along with the transcription
+const MAX_HISTORY_MESSAGES = 20;
+
+function voiceError(error: string | undefined, messageId: string | undefined, status: number): Response {
+    const body: VoiceUploadResponse = { success: false, transcription: "", response: "", error, messageId };
+    return jsonResponse(body, status);
+}
+
+// The session's conversation so far, in provider form; system notices and deleted messages are left out
+function sessionHistory(session: ChatSession | null): ChatMessage[] {
+    if (!session) {
+        return [];
+    }
+    return session.messages
+        .filter(message => message.type !== "system" && !message.deletedAt && message.content.trim())
+        .slice(-MAX_HISTORY_MESSAGES)
+        .map(message => ({ role: SENDER_ROLES[message.sender], text: message.content }));
+}
+
+export function registerVoiceRoutes(
+    router: Router,
+    transcriptionProvider: TranscriptionProvider,
+    chatProviders: ChatProviderRegistry,
+    sessionStore: SessionStore,
+    auth: AuthService,
+    prepareChat: ChatRequestPreparer = noChatPreparation,
+    maxAudioBytes = MAX_AUDIO_SIZE,
+    waveforms?: WaveformService,
+): void {
+    router.post("/api/voice/upload", async (req, { url, log }) => {
+        let messageId = url.searchParams.get("messageId") ?? undefined;
+
+        try {
+            let form: MultipartBody;
+            try {
+                form = await readMultipart(req);
+            } catch (parseError) {
+                if (!(parseError instanceof MultipartError)) {
+                    throw parseError;
+                }
+                return voiceError(parseError.message, messageId, 400);
+            }
+
+            messageId = form.fields.get("messageId") || messageId;
+
+            const audioFile = form.files.get("audio");
+            if (!audioFile) {
+                return voiceError("No audio file provided", messageId, 400);
+            }
+
+            const check = await checkAudioFile(audioFile, maxAudioBytes);
+            if (!check.valid) {
+                return voiceError(check.error, messageId, 400);
+            }
+
+            // Resolve everything the reply needs before spending time on transcription.
+            // Only the signed-in owner of a session may reply in its context.
+            const sessionId = form.fields.get("sessionId") || undefined;
+            let session: ChatSession | null = null;
+            if (sessionId) {
+                const user = auth.authenticate(req);
+                if (!user) {
+                    return voiceError("Not signed in", messageId, 401);
+                }
+                session = sessionStore.get(user.id, sessionId);
+                if (!session) {
+                    return voiceError(`Session ${sessionId} not found`, messageId, 404);
+                }
+            }
+
+            let chat: { model: string; provider: ChatProvider };
+            try {
+                chat = chatProviders.resolve(form.fields.get("model") || undefined);
+            } catch (error) {
+                if (error instanceof HttpError) {
+                    return voiceError(error.message, messageId, error.status);
+                }
+                throw error;
+            }
+
+            // The waveform is drawn while the transcription runs
+            const waveform = waveforms && check.info
+                ? waveforms.generate(audioFile, check.info, { signal: req.signal, log })
+                : Promise.resolve(null);
+
+            let transcription: TranscriptionResult;
+            try {
+                const language = form.fields.get("language") || undefined;
+                transcription = await transcriptionProvider.transcribe(audioFile, { signal: req.signal, language });
+            } catch (transcriptionError) {
+                log.error("transcription failed", { error: transcriptionError });
+                return voiceError("Service temporarily unavailable", messageId, 503);
+            }
+
+            const result: VoiceUploadResponse = {
+                success: true,
+                transcription: transcription.text,
+                response: "",
+                language: transcription.language,
+                duration: check.info?.duration ?? transcription.duration,
+                messageId,
+                sessionId,
+                audio: check.info,
+            };
+            const peaks = await waveform;
+            if (peaks) {
+                result.waveform = peaks;
+            }
+
+            if (!transcription.text.trim()) {
+                return jsonResponse({ ...result, replyError: "No speech detected" });
+            }
+
+            try {
+                const { request, tools } = prepareChat(req, {
+                    model: chat.model,
+                    messages: [...sessionHistory(session), { role: "user", text: transcription.text }],
+                    webSearch: false,
+                });
+                const reply = await chat.provider.generate(request, { signal: req.signal, tools, log });
+                return jsonResponse({ ...result, response: reply.content });
+            } catch (replyError) {
+                log.error("voice reply failed", { error: replyError });
+                return jsonResponse({ ...result, replyError: "Chat provider unavailable" });
+            }
+        } catch (error) {
+            log.error("voice upload failed", { error });
+            return voiceError("Internal server error", messageId, 500);
+        }
+    }, { maxBodyBytes: maxAudioBytes + MULTIPART_OVERHEAD_BYTES });
+}
@@ -0,0 +1,66 @@
+import { newWardrobeItemSchema, wardrobeFiltersSchema, wardrobeItemUpdateSchema } from "@shared/wardrobe";
+import { HttpError } from "../lib/errors";
+import { jsonResponse, readJson } from "../lib/http";
+import { pageOptions } from "../lib/pagination";
+import type { Router } from "../lib/router";
+import { parseBody } from "../lib/validation";
+import type { AuthService } from "../services/auth";
+import type { WardrobeStore } from "../services/wardrobe";
+
+// /api/wardrobe CRUD endpoints; every route works on the signed-in user's own items
+
+
+function notFound(id: string): HttpError {
+    return new HttpError(404, "wardrobe_item_not_found", `Wardrobe item ${id} not found`);
+}
+
+export function registerWardrobeRoutes(router: Router, store: WardrobeStore, auth: AuthService): void {
+    const requireUser = (req: Request): AuthUser => {
+        const user = auth.authenticate(req);
+        if (!user) {
+            throw new HttpError(401, "unauthenticated", "Not signed in");
+        }
+        return user;
+    };
+
+    router.get("/api/wardrobe", (req, { url }) => {
+        const user = requireUser(req);
+        const filters = parseBody(wardrobeFiltersSchema, {
+            category: url.searchParams.get("category") || undefined,
+            season: url.searchParams.get("season") || undefined,
+            color: url.searchParams.get("color") || undefined,
+        });
+        return jsonResponse(store.list(user.id, filters, pageOptions(url)));
+    });
+
+    router.post("/api/wardrobe", async req => {
+        const user = requireUser(req);
+        const input = parseBody(newWardrobeItemSchema, await readJson(req));
+        return jsonResponse(store.create(user.id, input), 201);
+    });
+
+    router.get("/api/wardrobe/:id", (req, { params }) => {
+        const item = store.get(requireUser(req).id, params.id!);
+        if (!item) {
+            throw notFound(params.id!);
+        }
+        return jsonResponse(item);
+    });
+
+    router.patch("/api/wardrobe/:id", async (req, { params }) => {
+        const user = requireUser(req);
+        const changes = parseBody(wardrobeItemUpdateSchema, await readJson(req));
+        const item = store.update(user.id, params.id!, changes);
+        if (!item) {
+            throw notFound(params.id!);
+        }
+        return jsonResponse(item);
+    });
+
+    router.delete("/api/wardrobe/:id", (req, { params }) => {
+        if (!store.delete(requireUser(req).id, params.id!)) {
+            throw notFound(params.id!);
+        }
+        return new Response(null, { status: 204 });
+    });
+}
@@ -0,0 +1,43 @@
+import { jsonResponse } from "../lib/http";
+import type { Router } from "../lib/router";
+import type { WeatherService } from "../services/weather";
+
+// GET /api/weather?lat=&lon=. Replies use the WeatherResponse shape, with X-Cache telling whether the report was cached.
+
+function weatherError(error: string, status: number): Response {
+    return jsonResponse({ success: false, error } satisfies WeatherResponse, status);
+}
+
+// Parse a coordinate query parameter; null when present but not a number in range
+function parseCoordinate(value: string | null, limit: number, fallback: number): number | null {
+    if (value === null || value === "") {
+        return fallback;
+    }
+    const number = Number(value);
+    return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+}
+
+export function registerWeatherRoutes(
+    router: Router,
+    weather: WeatherService,
+    defaultLocation: { latitude: number; longitude: number },
+): void {
+    router.get("/api/weather", async (_req, { url, log }) => {
+        // Without coordinates (location permission denied) the default location is used
+        const latitude = parseCoordinate(url.searchParams.get("lat"), 90, defaultLocation.latitude);
+        const longitude = parseCoordinate(url.searchParams.get("lon"), 180, defaultLocation.longitude);
+        if (latitude === null || longitude === null) {
+            return weatherError("lat must be within ±90 and lon within ±180", 400);
+        }
+
+        try {
+            const { report, cached } = await weather.get(latitude, longitude);
+            const response = jsonResponse({ success: true, data: report } satisfies WeatherResponse);
+            response.headers.set("X-Cache", cached ? "HIT" : "MISS");
+            return response;
+        } catch (error) {
+            log.error("weather provider failed", { error });
+            return weatherError("Weather service temporarily unavailable", 503);
+        }
+    });
+}
@@ -0,0 +1,177 @@
+import type { Database } from "bun:sqlite";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { HttpError } from "../lib/errors";
+import { logger } from "../lib/logger";
+
+// Accounts with hashed passwords, and HMAC-signed session tokens
+
+export const SESSION_COOKIE = "kk_session";
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+const USERNAME = /^[A-Za-z0-9_-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+interface UserRow {
+    id: string;
+    username: string;
+    password_hash: string;
+    created_at: number;
+}
+
+interface TokenPayload {
+    sub: string;        // User id
+    name: string;       // Username at the time of issue
+    iat: number;        // Issued at (seconds)
+    exp: number;        // Expires at (seconds)
+}
+
+function toUser(row: UserRow): AuthUser {
+    return { id: row.id, username: row.username, createdAt: new Date(row.created_at).toISOString() };
+}
+
+function invalidCredentials(): HttpError {
+    return new HttpError(401, "invalid_credentials", "Invalid username or password");
+}
+
+export class AuthService {
+    private readonly secret: string;
+    // Who each request signed in as, for the request log; requests are dropped with the request
+    private readonly requestUsers = new WeakMap<Request, AuthUser>();
+
+    constructor(private readonly db: Database, secret?: string) {
+        if (!secret) {
+            logger.warn("AUTH_SECRET is not set; using a random secret, so sessions will not survive a restart");
+        }
+        this.secret = secret || crypto.randomUUID() + crypto.randomUUID();
+    }
+
+    async signUp(username: string, password: string): Promise<AuthResponse> {
+        const fields: string[] = [];
+        if (!USERNAME.test(username)) fields.push("username");
+        if (password.length < MIN_PASSWORD_LENGTH) fields.push("password");
+        if (fields.length > 0) {
+            throw new HttpError(400, "invalid_credentials_format",
+                `Username must be 3-32 letters, digits, "_" or "-", and password at least ${MIN_PASSWORD_LENGTH} characters`,
+                { fields });
+        }
+
+        const row: UserRow = {
+            id: crypto.randomUUID(),
+            username,
+            password_hash: await Bun.password.hash(password),
+            created_at: Date.now(),
+        };
+
+        try {
+            this.db.query(`
+                INSERT INTO users (id, username, password_hash, created_at)
+                VALUES ($id, $username, $passwordHash, $createdAt)
+            `).run({ id: row.id, username: row.username, passwordHash: row.password_hash, createdAt: row.created_at });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes("UNIQUE")) {
+                throw new HttpError(409, "username_taken", "Username is already taken");
+            }
+            throw error;
+        }
+
+        return this.issue(toUser(row));
+    }
+
+    async signIn(username: string, password: string): Promise<AuthResponse> {
+        const row = this.db.query("SELECT * FROM users WHERE username = $username").get({ username }) as UserRow | null;
+        if (!row || !(await Bun.password.verify(password, row.password_hash))) {
+            throw invalidCredentials();
+        }
+        return this.issue(toUser(row));
+    }
+
+    getUser(id: string): AuthUser | null {
+        const row = this.db.query("SELECT * FROM users WHERE id = $id").get({ id }) as UserRow | null;
+        return row ? toUser(row) : null;
+    }
+
+    private sign(encodedPayload: string): string {
+        return createHmac("sha256", this.secret).update(encodedPayload).digest("base64url");
+    }
+
+    private issue(user: AuthUser): AuthResponse {
+        const now = Math.floor(Date.now() / 1000);
+        const payload: TokenPayload = { sub: user.id, name: user.username, iat: now, exp: now + TOKEN_TTL_SECONDS };
+        const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+        return {
+            user,
+            token: `${encodedPayload}.${this.sign(encodedPayload)}`,
+            expiresAt: new Date(payload.exp * 1000).toISOString(),
+        };
+    }
+
+    // Returns the token's user, or null when the token is malformed, forged, expired or the account is gone
+    verifyToken(token: string): AuthUser | null {
+        const [encodedPayload, signature] = token.split(".");
+        if (!encodedPayload || !signature) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.sign(encodedPayload));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        let payload: TokenPayload;
+        try {
+            payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as TokenPayload;
+        } catch {
+            return null;
+        }
+
+        if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+            return null;
+        }
+
+        return this.getUser(payload.sub);
+    }
+
+    // Authenticate a request from its bearer token or session cookie.
+    // Browsers cannot set headers on WebSocket upgrades, so those may also pass ?token=.
+    authenticate(req: Request, options: { allowQueryToken?: boolean } = {}): AuthUser | null {
+        const token = extractToken(req, options.allowQueryToken ?? false);
+        const user = token ? this.verifyToken(token) : null;
+        if (user) {
+            this.requestUsers.set(req, user);
+        }
+        return user;
+    }
+
+    // The user an earlier authenticate() call found for this request, without checking again
+    authenticatedUser(req: Request): AuthUser | undefined {
+        return this.requestUsers.get(req);
+    }
+}
+
+export function extractToken(req: Request, allowQueryToken: boolean): string | null {
+    const authorization = req.headers.get("authorization");
+    if (authorization?.toLowerCase().startsWith("bearer ")) {
+        return authorization.slice(7).trim() || null;
+    }
+
+    const cookies = req.headers.get("cookie") ?? "";
+    for (const cookie of cookies.split(";")) {
+        const [name, ...value] = cookie.trim().split("=");
+        if (name === SESSION_COOKIE) {
+            return decodeURIComponent(value.join("=")) || null;
+        }
+    }
+
+    return allowQueryToken ? new URL(req.url).searchParams.get("token") : null;
+}
+
+export function sessionCookie(auth: AuthResponse, secure: boolean): string {
+    const maxAge = Math.max(0, Math.floor((Date.parse(auth.expiresAt) - Date.now()) / 1000));
+    return `${SESSION_COOKIE}=${auth.token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure ? "; Secure" : ""}`;
+}
+
+export function clearedSessionCookie(): string {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
@@ -0,0 +1,279 @@
+import { findNamedColor } from "@shared/colors";
+import type { ColorHarmony, HarmonyScheme } from "@shared/outfits";
+import { deltaE, hexToRgb, rgbToHex, rgbToLab, type Lab } from "../lib/color";
+import { nameColor } from "./palette";
+
+// Color theory for outfits: classify a combination's colors into a harmony scheme (neutral
+// anchor, analogous, complementary, triadic, ...) and score it. Hues are placed on the painter's
+// red-yellow-blue wheel that fashion rules are written for, where red and green are opposites.
+
+// Colors fashion treats as neutral, whatever their measured chroma
+const NEUTRAL_COLORS = new Set(["black", "charcoal", "gray", "white", "cream", "beige", "khaki", "brown", "navy"]);
+
+const NEUTRAL_CHROMA = 12;          // Below this chroma any color reads as gray
+const SAME_HUE = 25;                // Hues closer than this (degrees) are shades of one color
+const FAVORITE_DELTA_E = 20;        // Colors this close to a favorite count as the favorite
+const FAVORITE_BONUS = 0.1;         // Per favorite used, up to MAX_FAVORITE_BONUS
+const MAX_FAVORITE_BONUS = 0.15;
+const ANCHOR_BONUS = 0.05;          // Neutrals calming two or more accent hues
+const PASTEL_LIGHTNESS = 70;        // Light, soft colors (Lab L* above this, chroma below
+const PASTEL_CHROMA = 45;           // this) go with each other whatever their hues
+
+// RGB hue -> RYB hue anchors: yellow moves from 60° to 120°, cyan from 180° to 210°
+const RYB_ANCHORS: Array<[rgb: number, ryb: number]> = [[0, 0], [60, 120], [120, 180], [180, 210], [240, 240], [300, 300], [360, 360]];
+
+interface ResolvedColor {
+    input: string;
+    label: string;                  // How explanations name it
+    hex: string;
+    name: string;
+    lab: Lab;
+    neutral: boolean;
+    pastel: boolean;
+    hue: number | null;
+}
+
+// HSV hue of an sRGB color in degrees
+function rgbHue(r: number, g: number, b: number): number {
+    const max = Math.max(r, g, b);
+    const delta = max - Math.min(r, g, b);
+    if (delta === 0) {
+        return 0;
+    }
+    const hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    return (hue * 60 + 360) % 360;
+}
+
+// Piecewise-linear map from the RGB wheel onto the RYB wheel
+function toRybHue(hue: number): number {
+    for (let i = 1; i < RYB_ANCHORS.length; i++) {
+        const [rgbEnd, rybEnd] = RYB_ANCHORS[i]!;
+        if (hue <= rgbEnd) {
+            const [rgbStart, rybStart] = RYB_ANCHORS[i - 1]!;
+            return rybStart + (hue - rgbStart) / (rgbEnd - rgbStart) * (rybEnd - rybStart);
+        }
+    }
+    return hue;
+}
+
+// A color name or #rrggbb value; null when it is neither
+function resolveColor(input: string): ResolvedColor | null {
+    const named = findNamedColor(input);
+    const rgb = hexToRgb(named?.hex ?? input);
+    if (!rgb) {
+        return null;
+    }
+
+    const lab = rgbToLab(...rgb);
+    const name = named?.name ?? nameColor(lab).name;
+    const chroma = Math.hypot(lab[1], lab[2]);
+    const neutral = NEUTRAL_COLORS.has(name) || chroma < NEUTRAL_CHROMA;
+    return {
+        input,
+        label: named ? named.name : name,
+        hex: rgbToHex(rgb),
+        name,
+        lab,
+        neutral,
+        pastel: !neutral && lab[0] > PASTEL_LIGHTNESS && chroma < PASTEL_CHROMA,
+        hue: neutral ? null : toRybHue(rgbHue(...rgb)),
+    };
+}
+
+function hueDistance(first: number, second: number): number {
+    const difference = Math.abs(first - second) % 360;
+    return difference > 180 ? 360 - difference : difference;
+}
+
+function list(names: string[]): string {
+    return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`;
+}
+
+function unique(values: string[]): string[] {
+    return [...new Set(values)];
+}
+
+const isAnalogous = (distance: number) => distance <= 50;
+const isTriadic = (distance: number) => distance >= 100 && distance <= 140;
+const isComplementary = (distance: number) => distance >= 150;
+
+// Accent colors grouped into hue families; the first member names the family
+function hueFamilies(accents: ResolvedColor[]): ResolvedColor[][] {
+    const families: ResolvedColor[][] = [];
+    for (const color of accents) {
+        const family = families.find(members => hueDistance(members[0]!.hue!, color.hue!) < SAME_HUE);
+        if (family) {
+            family.push(color);
+        } else {
+            families.push([color]);
+        }
+    }
+    return families;
+}
+
+interface Classification {
+    scheme: HarmonyScheme;
+    score: number;
+    explanation: string;
+}
+
+function classify(neutrals: ResolvedColor[], families: ResolvedColor[][]): Classification {
+    const labels = families.map(family => family[0]!.label);
+    const classification = classifyHues(neutrals, families);
+
+    // Soft pastels go together whatever their hues, as long as there are only a few
+    const pastel = families.length <= 3 && families.every(family => family.every(color => color.pastel));
+    if (classification.scheme === "clash" && pastel) {
+        return { scheme: "pastel", score: 0.85, explanation: `Soft ${list(labels)} pastels go together` };
+    }
+    return classification;
+}
+
+function classifyHues(neutrals: ResolvedColor[], families: ResolvedColor[][]): Classification {
+    const labels = families.map(family => family[0]!.label);
+    const hues = families.map(family => family[0]!.hue!);
+    const neutralLabels = list(unique(neutrals.map(color => color.label)));
+
+    switch (families.length) {
+        case 0:
+            return { scheme: "neutral", score: 0.8, explanation: "All neutrals: easy to wear, if a little quiet" };
+        case 1: {
+            const shades = unique(families[0]!.map(color => color.label));
+            if (neutrals.length > 0) {
+                return {
+                    scheme: "neutral-anchor",
+                    score: 1,
+                    explanation: `The ${list(shades)} ${shades.length > 1 ? "stand" : "stands"} out against ${neutralLabels}`,
+                };
+            }
+            return {
+                scheme: "monochrome",
+                score: 0.9,
+                explanation: shades.length > 1 ? `${list(shades)} are shades of one color` : `Tone-on-tone ${shades[0]}`,
+            };
+        }
+        case 2: {
+            const distance = hueDistance(hues[0]!, hues[1]!);
+            const pair = list(labels);
+            if (isAnalogous(distance)) {
+                return { scheme: "analogous", score: 0.9, explanation: `${pair} sit side by side on the color wheel` };
+            }
+            if (isComplementary(distance)) {
+                return { scheme: "complementary", score: 0.9, explanation: `${pair} are complementary, so each makes the other pop` };
+            }
+            if (isTriadic(distance)) {
+                return { scheme: "triadic", score: 0.7, explanation: `${pair} are a third of the wheel apart: bold but balanced` };
+            }
+            return { scheme: "clash", score: 0.4, explanation: `${pair} clash` };
+        }
+        case 3: {
+            const distances = [
+                hueDistance(hues[0]!, hues[1]!),
+                hueDistance(hues[1]!, hues[2]!),
+                hueDistance(hues[0]!, hues[2]!),
+            ];
+            if (distances.every(distance => distance <= 60)) {
+                return { scheme: "analogous", score: 0.85, explanation: `${list(labels)} blend into each other` };
+            }
+            if (distances.every(isTriadic)) {
+                return { scheme: "triadic", score: 0.8, explanation: `${list(labels)} form a triad, evenly spaced around the wheel` };
+            }
+            return { scheme: "clash", score: 0.35, explanation: `${list(labels)} compete for attention` };
+        }
+        default:
+            return { scheme: "clash", score: 0.3, explanation: `Too many colors at once: ${list(labels)}` };
+    }
+}
+
+// Pairs of accent families that are neither related, opposite nor a third apart (pastels excepted)
+function findClashes(families: ResolvedColor[][]): Array<[string, string]> {
+    const clashes: Array<[string, string]> = [];
+    for (let i = 0; i < families.length; i++) {
+        for (let j = i + 1; j < families.length; j++) {
+            const first = families[i]![0]!;
+            const second = families[j]![0]!;
+            const distance = hueDistance(first.hue!, second.hue!);
+            const soft = first.pastel && second.pastel;
+            if (!soft && !isAnalogous(distance) && !isTriadic(distance) && !isComplementary(distance)) {
+                clashes.push([first.input, second.input]);
+            }
+        }
+    }
+    return clashes;
+}
+
+// Favorites (names or hex) that the combination uses, or comes within FAVORITE_DELTA_E of
+function matchFavorites(colors: ResolvedColor[], favoriteColors: string[]): string[] {
+    return favoriteColors.filter(favorite => {
+        const resolved = resolveColor(favorite);
+        return resolved !== null && colors.some(color =>
+            color.name === resolved.name || deltaE(color.lab, resolved.lab) <= FAVORITE_DELTA_E);
+    });
+}
+
+export interface HarmonyOptions {
+    favoriteColors?: string[];      // UserPreferences.favoriteColors
+}
+
+// Score the colors of an outfit, one entry per garment (ClothingItem.color values).
+// Unreadable colors are reported in `unknown` and otherwise ignored.
+export function scoreColorHarmony(inputs: string[], options: HarmonyOptions = {}): ColorHarmony {
+    const resolved: ResolvedColor[] = [];
+    const unknown: string[] = [];
+    for (const input of inputs) {
+        const color = resolveColor(input);
+        if (color) {
+            resolved.push(color);
+        } else {
+            unknown.push(input);
+        }
+    }
+
+    const colors = resolved.map(({ input, hex, name, neutral, hue }) => ({
+        input,
+        hex,
+        name,
+        neutral,
+        hue: hue === null ? null : Math.round(hue),
+    }));
+
+    if (resolved.length === 0) {
+        return {
+            score: 0.6,
+            scheme: "unknown",
+            explanation: "No colors could be read",
+            colors,
+            clashes: [],
+            favorites: [],
+            unknown,
+        };
+    }
+
+    const neutrals = resolved.filter(color => color.neutral);
+    const families = hueFamilies(resolved.filter(color => !color.neutral));
+    const { scheme, score: baseScore, explanation } = classify(neutrals, families);
+    const notes = [explanation];
+    let score = baseScore;
+
+    if (families.length >= 2 && neutrals.length > 0) {
+        score += ANCHOR_BONUS;
+        const anchors = unique(neutrals.map(color => color.label));
+        notes.push(`${list(anchors)} keep${anchors.length === 1 ? "s" : ""} it grounded`);
+    }
+
+    const favorites = matchFavorites(resolved, options.favoriteColors ?? []);
+    if (favorites.length > 0) {
+        score += Math.min(MAX_FAVORITE_BONUS, FAVORITE_BONUS * favorites.length);
+        notes.push(`uses your favorite ${list(favorites)}`);
+    }
+
+    return {
+        score: Math.round(Math.min(1, score) * 100) / 100,
+        scheme,
+        explanation: notes.join("; "),
+        colors,
+        clashes: findClashes(families),
+        favorites,
+        unknown,
+    };
+}
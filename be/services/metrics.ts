@@ -0,0 +1,165 @@
+import type { Middleware } from "../lib/router";
+import { MetricsRegistry, type Histogram } from "../lib/metrics";
+import type { ChatProvider, ChatProviderRegistry } from "../providers/chat";
+import type { ClothingRecognizer } from "../providers/recognition";
+import type { TranscriptionProvider } from "../providers/transcription";
+import type { WeatherProvider } from "../providers/weather";
+
+// The server's operational metrics, served on /metrics: HTTP traffic, WebSocket activity, and the
+// speed and failures of the providers behind chat, transcription, recognition and weather.
+// Providers are measured by wrapping them, so the routes using them need not know.
+
+// Slow upstream calls (seconds): model replies and transcriptions can take many seconds
+const PROVIDER_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60];
+
+// Rooms are user-named, so only this many topics get their own series; the rest count as "other"
+const MAX_TOPICS = 100;
+
+type ProviderKind = "chat" | "transcription" | "recognition" | "weather";
+
+export class ServerMetrics {
+    readonly registry = new MetricsRegistry();
+
+    private readonly httpRequests = this.registry.counter(
+        "http_requests_total", "HTTP requests by route pattern, method and status", ["route", "method", "status"]);
+    private readonly httpDuration = this.registry.histogram(
+        "http_request_duration_seconds", "Time to produce an HTTP response (streams: until headers are sent)", ["route", "method"]);
+    private readonly websocketConnections = this.registry.gauge(
+        "websocket_connections", "Open WebSocket connections");
+    private readonly websocketMessages = this.registry.counter(
+        "websocket_messages_published_total", "Messages published to WebSocket subscribers by topic and type", ["topic", "type"]);
+    private readonly chatDuration = this.registry.histogram(
+        "chat_response_duration_seconds", "Time for a chat provider to finish a reply", ["model", "mode"], PROVIDER_BUCKETS);
+    private readonly chatFirstPart = this.registry.histogram(
+        "chat_stream_first_part_seconds", "Time until a streamed chat reply produced its first part", ["model"], PROVIDER_BUCKETS);
+    private readonly transcriptionDuration = this.registry.histogram(
+        "transcription_duration_seconds", "Time to transcribe an audio file", ["provider", "outcome"], PROVIDER_BUCKETS);
+    private readonly providerCalls = this.registry.histogram(
+        "provider_call_duration_seconds", "Duration of recognition and weather provider calls", ["kind", "provider"], PROVIDER_BUCKETS);
+    private readonly providerErrors = this.registry.counter(
+        "provider_errors_total", "Failed provider calls by kind and provider", ["kind", "provider"]);
+
+    private readonly topics = new Set<string>();
+
+    // Count and time every request by its route pattern (not the raw path, which would explode the series)
+    middleware(): Middleware {
+        return async (req, ctx, next) => {
+            const stop = this.httpDuration.startTimer({ route: ctx.route?.path ?? "unmatched", method: req.method });
+            const response = await next();
+            stop();
+            this.httpRequests.inc({
+                route: ctx.route?.path ?? "unmatched",
+                method: req.method,
+                status: String(response?.status ?? 101),
+            });
+            return response;
+        };
+    }
+
+    websocketOpened(): void {
+        this.websocketConnections.inc();
+    }
+
+    websocketClosed(): void {
+        this.websocketConnections.dec();
+    }
+
+    published(topic: string, type: string): void {
+        if (this.topics.size < MAX_TOPICS) {
+            this.topics.add(topic);
+        }
+        this.websocketMessages.inc({ topic: this.topics.has(topic) ? topic : "other", type });
+    }
+
+    private failed(kind: ProviderKind, provider: string): void {
+        this.providerErrors.inc({ kind, provider });
+    }
+
+    // Time a provider call, counting it as an error if it throws
+    private async measure<T>(histogram: Histogram, labels: Record<string, string>, kind: ProviderKind, provider: string, call: () => Promise<T>): Promise<T> {
+        const stop = histogram.startTimer(labels);
+        try {
+            const result = await call();
+            stop();
+            return result;
+        } catch (error) {
+            stop();
+            this.failed(kind, provider);
+            throw error;
+        }
+    }
+
+    // Replace every registered chat provider with a measured one
+    instrumentChat(registry: ChatProviderRegistry): void {
+        for (const model of registry.models()) {
+            registry.register(model, this.chatProvider(model, registry.resolve(model).provider));
+        }
+    }
+
+    private chatProvider(model: string, provider: ChatProvider): ChatProvider {
+        const metrics = this;
+        return {
+            name: provider.name,
+            ...(provider.check ? { check: signal => provider.check!(signal) } : {}),
+            generate: (request, options) => this.measure(
+                this.chatDuration, { model, mode: "generate" }, "chat", provider.name,
+                () => provider.generate(request, options)),
+            async *stream(request, options) {
+                const stop = metrics.chatDuration.startTimer({ model, mode: "stream" });
+                const stopFirst = metrics.chatFirstPart.startTimer({ model });
+                let first = true;
+                try {
+                    for await (const part of provider.stream(request, options)) {
+                        if (first) {
+                            stopFirst();
+                            first = false;
+                        }
+                        yield part;
+                    }
+                } catch (error) {
+                    metrics.failed("chat", provider.name);
+                    throw error;
+                } finally {
+                    stop();
+                }
+            },
+        };
+    }
+
+    transcription(provider: TranscriptionProvider): TranscriptionProvider {
+        return {
+            name: provider.name,
+            ...(provider.check ? { check: signal => provider.check!(signal) } : {}),
+            transcribe: async (audio, options) => {
+                const stop = this.transcriptionDuration.startTimer({ provider: provider.name });
+                try {
+                    const result = await provider.transcribe(audio, options);
+                    stop({ outcome: "success" });
+                    return result;
+                } catch (error) {
+                    stop({ outcome: "error" });
+                    this.failed("transcription", provider.name);
+                    throw error;
+                }
+            },
+        };
+    }
+
+    recognizer(recognizer: ClothingRecognizer): ClothingRecognizer {
+        return {
+            name: recognizer.name,
+            recognize: (image, options) => this.measure(
+                this.providerCalls, { kind: "recognition", provider: recognizer.name }, "recognition", recognizer.name,
+                () => recognizer.recognize(image, options)),
+        };
+    }
+
+    weather(provider: WeatherProvider): WeatherProvider {
+        return {
+            name: provider.name,
+            fetch: (latitude, longitude, options) => this.measure(
+                this.providerCalls, { kind: "weather", provider: provider.name }, "weather", provider.name,
+                () => provider.fetch(latitude, longitude, options)),
+        };
+    }
+}
@@ -0,0 +1,215 @@
+import { NAMED_COLORS, type NamedColor } from "@shared/colors";
+import { deltaE, hexToRgb, labToRgb, rgbToHex, rgbToLab, type Lab } from "../lib/color";
+import { decodeImage } from "../lib/image";
+import type { RawImage } from "../lib/raster";
+
+// Dominant garment colors: k-means in Lab space over a sample of pixels. Transparent pixels and
+// the backdrop (the color filling most of the image border) are left out, so a shirt photographed
+// on a white wall comes back as the shirt's colors. Given a bounding box, only the pixels inside it
+// are sampled and the box's own edge stands in for the border.
+
+const NAMED_LABS = NAMED_COLORS.map(color => {
+    const [r, g, b] = hexToRgb(color.hex)!;
+    return { color, lab: rgbToLab(r, g, b) };
+});
+
+const MAX_SAMPLES = 4096;
+const MAX_DECODE_PIXELS = 1024 * 1024;  // Larger JPEGs are analyzed at 1/8 scale; larger PNGs are skipped
+const CLUSTERS = 5;
+const ITERATIONS = 12;
+const BORDER_FRACTION = 0.06;           // Width of the frame treated as possible backdrop
+const BACKDROP_SHARE = 0.4;             // Border share a single color needs to count as the backdrop
+const BACKDROP_DELTA_E = 12;            // Pixels this close to the backdrop are dropped
+const MIN_FOREGROUND = 64;              // Fewer samples than this left means the backdrop guess was wrong
+const MIN_PROPORTION = 0.03;            // Clusters smaller than this are noise
+
+// Nearest named color by CIE76 distance
+export function nameColor(lab: Lab): NamedColor {
+    let best = NAMED_LABS[0]!;
+    for (const candidate of NAMED_LABS) {
+        if (deltaE(lab, candidate.lab) < deltaE(lab, best.lab)) {
+            best = candidate;
+        }
+    }
+    return best.color;
+}
+
+// Pixel bounds of a bounding box, at least one pixel wide and tall
+function pixelBounds(image: RawImage, box?: BoundingBox): { left: number; top: number; right: number; bottom: number } {
+    if (!box) {
+        return { left: 0, top: 0, right: image.width, bottom: image.height };
+    }
+    const left = Math.min(image.width - 1, Math.floor(box.x * image.width));
+    const top = Math.min(image.height - 1, Math.floor(box.y * image.height));
+    return {
+        left,
+        top,
+        right: Math.max(left + 1, Math.min(image.width, Math.ceil((box.x + box.width) * image.width))),
+        bottom: Math.max(top + 1, Math.min(image.height, Math.ceil((box.y + box.height) * image.height))),
+    };
+}
+
+// Opaque pixels on an even grid within the region, split into the region's border frame and its interior
+function samplePixels(image: RawImage, box?: BoundingBox): { border: Lab[]; interior: Lab[] } {
+    const { width, data } = image;
+    const { left, top, right, bottom } = pixelBounds(image, box);
+    const regionWidth = right - left;
+    const regionHeight = bottom - top;
+    const step = Math.max(1, Math.sqrt((regionWidth * regionHeight) / MAX_SAMPLES));
+    const borderX = Math.max(1, Math.floor(regionWidth * BORDER_FRACTION));
+    const borderY = Math.max(1, Math.floor(regionHeight * BORDER_FRACTION));
+    const border: Lab[] = [];
+    const interior: Lab[] = [];
+
+    for (let fy = top + step / 2; fy < bottom; fy += step) {
+        const y = Math.floor(fy);
+        for (let fx = left + step / 2; fx < right; fx += step) {
+            const x = Math.floor(fx);
+            const offset = (y * width + x) * 4;
+            if (data[offset + 3]! < 128) {
+                continue;
+            }
+            const lab = rgbToLab(data[offset]!, data[offset + 1]!, data[offset + 2]!);
+            const onBorder = x < left + borderX || x >= right - borderX || y < top + borderY || y >= bottom - borderY;
+            (onBorder ? border : interior).push(lab);
+        }
+    }
+
+    return { border, interior };
+}
+
+// Average color of the most common coarse Lab bin along the border, if it dominates the border
+function estimateBackdrop(border: Lab[]): Lab | null {
+    const bins = new Map<string, Lab[]>();
+    for (const lab of border) {
+        const key = lab.map(value => Math.round(value / 10)).join();
+        const bin = bins.get(key);
+        if (bin) {
+            bin.push(lab);
+        } else {
+            bins.set(key, [lab]);
+        }
+    }
+
+    let largest: Lab[] = [];
+    for (const bin of bins.values()) {
+        if (bin.length > largest.length) {
+            largest = bin;
+        }
+    }
+
+    return largest.length > 0 && largest.length >= border.length * BACKDROP_SHARE ? mean(largest) : null;
+}
+
+function mean(points: Lab[]): Lab {
+    let l = 0, a = 0, b = 0;
+    for (const point of points) {
+        l += point[0];
+        a += point[1];
+        b += point[2];
+    }
+    return [l / points.length, a / points.length, b / points.length];
+}
+
+// Deterministic k-means: farthest-first seeding from the overall mean, then Lloyd iterations
+function kMeans(points: Lab[], k: number): { center: Lab; size: number }[] {
+    const centers: Lab[] = [];
+    const overall = mean(points);
+    let seed = points[0]!;
+    for (const point of points) {
+        if (deltaE(point, overall) < deltaE(seed, overall)) {
+            seed = point;
+        }
+    }
+    centers.push(seed);
+
+    const nearest = points.map(point => deltaE(point, seed));
+    while (centers.length < k) {
+        let farthest = 0;
+        for (let i = 1; i < points.length; i++) {
+            if (nearest[i]! > nearest[farthest]!) {
+                farthest = i;
+            }
+        }
+        if (nearest[farthest] === 0) {
+            break;                  // Fewer distinct colors than clusters
+        }
+        const center = points[farthest]!;
+        centers.push(center);
+        points.forEach((point, i) => {
+            nearest[i] = Math.min(nearest[i]!, deltaE(point, center));
+        });
+    }
+
+    const assignments = new Int32Array(points.length).fill(-1);
+    for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+        let changed = false;
+        points.forEach((point, i) => {
+            let best = 0;
+            for (let c = 1; c < centers.length; c++) {
+                if (deltaE(point, centers[c]!) < deltaE(point, centers[best]!)) {
+                    best = c;
+                }
+            }
+            if (assignments[i] !== best) {
+                assignments[i] = best;
+                changed = true;
+            }
+        });
+        if (!changed) {
+            break;
+        }
+
+        centers.forEach((center, c) => {
+            const members = points.filter((_, i) => assignments[i] === c);
+            centers[c] = members.length > 0 ? mean(members) : center;
+        });
+    }
+
+    return centers.map((center, c) => ({
+        center,
+        size: assignments.reduce((count, assignment) => count + (assignment === c ? 1 : 0), 0),
+    }));
+}
+
+// Dominant colors of a decoded image, or of the part inside `box`, largest first; empty when it is fully transparent
+export function extractPalette(image: RawImage, box?: BoundingBox): PaletteColor[] {
+    const { border, interior } = samplePixels(image, box);
+    const all = [...border, ...interior];
+    if (all.length === 0) {
+        return [];
+    }
+
+    let foreground = all;
+    const backdrop = estimateBackdrop(border);
+    if (backdrop) {
+        const subject = interior.filter(lab => deltaE(lab, backdrop) > BACKDROP_DELTA_E);
+        if (subject.length >= MIN_FOREGROUND) {
+            foreground = subject;
+        }
+    }
+
+    // Clusters that land on the same named color are merged; the larger one's hex is kept
+    const palette = new Map<string, PaletteColor>();
+    const clusters = kMeans(foreground, CLUSTERS).sort((a, b) => b.size - a.size);
+    for (const { center, size } of clusters) {
+        const proportion = size / foreground.length;
+        const named = nameColor(center);
+        const existing = palette.get(named.name);
+        if (existing) {
+            existing.proportion += proportion;
+        } else {
+            palette.set(named.name, { hex: rgbToHex(labToRgb(center)), name: named.name, nameJa: named.nameJa, proportion });
+        }
+    }
+
+    return [...palette.values()]
+        .filter(color => color.proportion >= MIN_PROPORTION)
+        .sort((a, b) => b.proportion - a.proportion)
+        .map(color => ({ ...color, proportion: Math.round(color.proportion * 100) / 100 }));
+}
+
+// An uploaded PNG or JPEG decoded for extractPalette; null for formats without a decoder. Throws ImageDecodeError for corrupt files.
+export async function decodeForPalette(image: File): Promise<RawImage | null> {
+    return decodeImage(new Uint8Array(await image.arrayBuffer()), { maxPixels: MAX_DECODE_PIXELS });
+}
@@ -0,0 +1,53 @@
+import type { Database } from "bun:sqlite";
+import type { OnboardingStatus, PreferencesResponse, PreferencesUpdate, UserPreferences } from "@shared/preferences";
+
+// Per-user fashion preferences and onboarding progress, stored as one JSON document per user
+
+interface PreferencesRow {
+    user_id: string;
+    preferences: string;
+    onboarding: OnboardingStatus;
+    updated_at: number;
+}
+
+export class PreferencesStore {
+    constructor(private readonly db: Database) {}
+
+    // Users who never saved anything get empty preferences and a pending onboarding
+    get(userId: string): PreferencesResponse {
+        const row = this.db
+            .query("SELECT * FROM user_preferences WHERE user_id = $userId")
+            .get({ userId }) as PreferencesRow | null;
+
+        if (!row) {
+            return { preferences: {}, onboarding: "pending", updatedAt: null };
+        }
+        return {
+            preferences: JSON.parse(row.preferences) as UserPreferences,
+            onboarding: row.onboarding,
+            updatedAt: new Date(row.updated_at).toISOString(),
+        };
+    }
+
+    // Replace the stored preferences; the onboarding status only changes when given
+    put(userId: string, update: PreferencesUpdate): PreferencesResponse {
+        const onboarding = update.onboarding ?? this.get(userId).onboarding;
+        const now = Date.now();
+
+        this.db.query(`
+            INSERT INTO user_preferences (user_id, preferences, onboarding, updated_at)
+            VALUES ($userId, $preferences, $onboarding, $updatedAt)
+            ON CONFLICT (user_id) DO UPDATE SET
+                preferences = excluded.preferences,
+                onboarding = excluded.onboarding,
+                updated_at = excluded.updated_at
+        `).run({
+            userId,
+            preferences: JSON.stringify(update.preferences),
+            onboarding,
+            updatedAt: now,
+        });
+
+        return { preferences: update.preferences, onboarding, updatedAt: new Date(now).toISOString() };
+    }
+}
@@ -0,0 +1,49 @@
+// Tracks connected WebSocket clients per room. A user may hold several connections (tabs, devices);
+// they count as present in a room until their last connection in it leaves.
+export class PresenceTracker {
+    private rooms = new Map<string, Map<string, WebSocketData>>();
+
+    private connectionCount(room: string, username: string): number {
+        let count = 0;
+        for (const data of this.rooms.get(room)?.values() ?? []) {
+            if (data.username === username) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    // Returns true when this is the user's first connection in the room
+    add(room: string, data: WebSocketData): boolean {
+        let connections = this.rooms.get(room);
+        if (!connections) {
+            connections = new Map();
+            this.rooms.set(room, connections);
+        }
+        connections.set(data.connectionId, data);
+        return this.connectionCount(room, data.username) === 1;
+    }
+
+    // Returns true when the user has no connections left in the room
+    remove(room: string, data: WebSocketData): boolean {
+        const connections = this.rooms.get(room);
+        if (!connections?.delete(data.connectionId)) {
+            return false;
+        }
+        if (connections.size === 0) {
+            this.rooms.delete(room);
+        }
+        return this.connectionCount(room, data.username) === 0;
+    }
+
+    // Distinct usernames in a room, ordered by when they connected
+    users(room: string): string[] {
+        const connections = [...this.rooms.get(room)?.values() ?? []].sort((a, b) => a.joinedAt - b.joinedAt);
+        return [...new Set(connections.map(data => data.username))];
+    }
+
+    // Rooms with at least one connection
+    roomNames(): string[] {
+        return [...this.rooms.keys()];
+    }
+}
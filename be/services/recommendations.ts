@@ -0,0 +1,501 @@
+import {
+    OCCASIONS,
+    recommendationRequestSchema,
+    type Occasion,
+    type OutfitFactor,
+    type OutfitFactorName,
+    type OutfitSlot,
+    type RecommendationRequest,
+} from "@shared/outfits";
+import type { UserPreferences } from "@shared/preferences";
+import type { Season, WardrobeCategory } from "@shared/wardrobe";
+import type { Coordinates } from "@shared/weather";
+import { logger } from "../lib/logger";
+import type { ChatTool } from "../providers/chat";
+import { scoreColorHarmony } from "./harmony";
+import type { WardrobeStore } from "./wardrobe";
+import type { WeatherService } from "./weather";
+
+// Rule-based outfit recommendations: build candidate outfits from the wardrobe and rank
+// them by weather fit, color harmony, preferred style and occasion.
+
+const SLOTS: Record<WardrobeCategory, OutfitSlot> = {
+    tops: "top",
+    bottoms: "bottom",
+    dresses: "dress",
+    outerwear: "outer",
+    shoes: "shoes",
+    accessories: "accessory",
+};
+
+const WEIGHTS: Record<OutfitFactorName, number> = {
+    temperature: 0.3,
+    precipitation: 0.15,
+    color: 0.2,
+    style: 0.15,
+    occasion: 0.2,
+};
+
+// Candidates per slot kept before combining, so large wardrobes stay cheap to search
+const SLOT_CANDIDATES: Record<OutfitSlot, number> = {
+    top: 6,
+    bottom: 6,
+    dress: 4,
+    outer: 4,
+    shoes: 4,
+    accessory: 3,
+};
+
+// Temperature bands from coldest to hottest, and the bands each season's clothes are made for
+const BANDS = ["cold", "cool", "mild", "warm", "hot"] as const;
+type Band = typeof BANDS[number];
+
+const SEASON_BANDS: Record<Season, Band[]> = {
+    winter: ["cold", "cool"],
+    spring: ["cool", "mild", "warm"],
+    autumn: ["cool", "mild", "warm"],
+    summer: ["warm", "hot"],
+};
+
+function temperatureBand(celsius: number): Band {
+    if (celsius >= 27) return "hot";
+    if (celsius >= 21) return "warm";
+    if (celsius >= 15) return "mild";
+    if (celsius >= 8) return "cool";
+    return "cold";
+}
+
+interface OccasionRule {
+    styles: string[];       // Item styles that suit the occasion
+    keywords: string[];     // Garment names that suit it
+    avoid: string[];        // Garment names or styles that are out of place
+}
+
+const OCCASION_RULES: Record<Occasion, OccasionRule> = {
+    casual: {
+        styles: ["casual", "street", "kawaii", "sporty", "minimal"],
+        keywords: ["t-shirt", "tee", "jeans", "denim", "sneaker", "hoodie", "cardigan"],
+        avoid: ["suit", "tuxedo", "gown"],
+    },
+    work: {
+        styles: ["office", "formal", "smart", "classic", "minimal", "elegant"],
+        keywords: ["blazer", "shirt", "blouse", "slacks", "trousers", "loafer", "pump"],
+        avoid: ["hoodie", "shorts", "tank", "sandal", "flip-flop", "crop", "sweatpants", "street"],
+    },
+    date: {
+        styles: ["kawaii", "elegant", "romantic", "feminine", "chic"],
+        keywords: ["dress", "skirt", "blouse", "heels", "cardigan"],
+        avoid: ["sweatpants", "track", "hoodie"],
+    },
+    party: {
+        styles: ["party", "glam", "chic", "elegant", "kawaii"],
+        keywords: ["sequin", "satin", "velvet", "heels", "dress"],
+        avoid: ["sweatpants", "track", "hoodie"],
+    },
+    formal: {
+        styles: ["formal", "elegant", "classic"],
+        keywords: ["suit", "blazer", "gown", "heels", "oxford", "tie"],
+        avoid: ["sneaker", "jeans", "denim", "hoodie", "t-shirt", "tee", "shorts", "sandal", "casual", "street"],
+    },
+    sport: {
+        styles: ["sporty", "athletic", "active"],
+        keywords: ["leggings", "sneaker", "track", "jersey", "running", "shorts"],
+        avoid: ["heels", "dress", "skirt", "blazer", "suit"],
+    },
+    outdoor: {
+        styles: ["outdoor", "sporty", "casual"],
+        keywords: ["boot", "hiking", "parka", "fleece", "cargo", "windbreaker"],
+        avoid: ["heels", "gown", "suede"],
+    },
+};
+
+// How explanations refer to each occasion
+const OCCASION_PHRASES: Record<Occasion, string> = {
+    casual: "a casual day",
+    work: "work",
+    date: "a date",
+    party: "a party",
+    formal: "a formal event",
+    sport: "sport",
+    outdoor: "a day outdoors",
+};
+
+const RAIN_CONDITION = /rain|drizzle|shower|storm|thunder|snow|sleet/i;
+const RAIN_READY_SHOES = ["boot", "rain", "waterproof"];
+const RAIN_SHY_SHOES = ["sandal", "canvas", "suede", "mesh", "flip-flop"];
+
+// Whole words, plurals included: "sneaker" matches "white sneakers" but "tee" doesn't match "teeth"
+function mentions(text: string, words: string[]): string | undefined {
+    return words.find(word => {
+        const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return new RegExp(`\\b${escaped}(s|es)?\\b`, "i").test(text);
+    });
+}
+
+function describe(item: WardrobeItem): string {
+    return `${item.name} ${item.style ?? ""}`;
+}
+
+function percent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function list(names: string[]): string {
+    return names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`;
+}
+
+export interface OutfitPiece {
+    slot: OutfitSlot;
+    item: WardrobeItem;
+}
+
+// Weather as the recommender sees it
+export interface OutfitWeather {
+    temperature: number;
+    condition: string;
+    precipitation: number;      // Chance of rain or snow, 0..1
+    location: string;
+}
+
+export function summarizeWeather(report: WeatherReport): OutfitWeather {
+    const forecast = report.forecast[0]?.precipitation ?? 0;
+    return {
+        temperature: report.temperature,
+        condition: report.condition,
+        // A wet condition right now beats a dry forecast
+        precipitation: Math.max(forecast, RAIN_CONDITION.test(report.condition) ? 0.8 : 0),
+        location: `${report.location.city}, ${report.location.country}`,
+    };
+}
+
+export interface RecommendationContext {
+    weather: OutfitWeather | null;
+    occasion: Occasion;
+    preferences?: UserPreferences;
+}
+
+interface FactorResult {
+    score: number;
+    explanation: string;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// How well an item's seasons suit the weather: 1 inside its bands, fading with distance
+function itemTemperatureFit(item: WardrobeItem, band: Band): number {
+    if (item.seasons.length === 0) {
+        return 0.6;
+    }
+    const target = BANDS.indexOf(band);
+    const distance = Math.min(...item.seasons.flatMap(season =>
+        SEASON_BANDS[season].map(itemBand => Math.abs(BANDS.indexOf(itemBand) - target))));
+    return [1, 0.5, 0.1][Math.min(distance, 2)]!;
+}
+
+function scoreTemperature(pieces: OutfitPiece[], weather: OutfitWeather | null): FactorResult {
+    if (!weather) {
+        return { score: 0.5, explanation: "Weather unavailable, so temperature wasn't considered" };
+    }
+
+    const band = temperatureBand(weather.temperature);
+    const fits = pieces.map(piece => itemTemperatureFit(piece.item, band));
+    let score = fits.reduce((sum, fit) => sum + fit, 0) / fits.length;
+    const suited = fits.filter(fit => fit === 1).length;
+    const notes = [`${Math.round(weather.temperature)}°C is ${band}; ${suited} of ${pieces.length} pieces are made for it`];
+
+    const outer = pieces.find(piece => piece.slot === "outer");
+    if ((band === "cold" || band === "cool") && !outer) {
+        score *= 0.4;
+        notes.push("it needs a coat or jacket");
+    } else if ((band === "warm" || band === "hot") && outer) {
+        score *= 0.5;
+        notes.push(`the ${outer.item.name} will be too warm`);
+    }
+
+    return { score: clamp(score), explanation: notes.join(", ") };
+}
+
+function scorePrecipitation(pieces: OutfitPiece[], weather: OutfitWeather | null): FactorResult {
+    if (!weather) {
+        return { score: 0.5, explanation: "Weather unavailable, so rain wasn't considered" };
+    }
+    if (weather.precipitation < 0.3) {
+        return { score: 1, explanation: `Dry weather expected (${percent(weather.precipitation)} chance of rain)` };
+    }
+
+    let score = 0.4;
+    const notes = [`${percent(weather.precipitation)} chance of rain`];
+
+    const outer = pieces.find(piece => piece.slot === "outer");
+    if (outer) {
+        score += 0.3;
+        notes.push(`the ${outer.item.name} keeps you covered`);
+    } else {
+        notes.push("no outer layer against the rain");
+    }
+
+    const shoes = pieces.find(piece => piece.slot === "shoes");
+    if (shoes && mentions(describe(shoes.item), RAIN_READY_SHOES)) {
+        score += 0.3;
+        notes.push(`the ${shoes.item.name} can handle puddles`);
+    } else if (shoes && mentions(describe(shoes.item), RAIN_SHY_SHOES)) {
+        score -= 0.2;
+        notes.push(`the ${shoes.item.name} will get soaked`);
+    } else {
+        score += 0.1;
+    }
+
+    return { score: clamp(score), explanation: notes.join(", ") };
+}
+
+// Main colors only, one per piece; favorite colors earn a bonus
+function scoreColor(pieces: OutfitPiece[], preferences?: UserPreferences): FactorResult {
+    const colors = pieces.flatMap(piece => piece.item.colors.slice(0, 1));
+    if (colors.length === 0) {
+        return { score: 0.6, explanation: "Colors unknown; add colors to your wardrobe items for better picks" };
+    }
+    const { score, explanation } = scoreColorHarmony(colors, { favoriteColors: preferences?.favoriteColors });
+    return { score, explanation };
+}
+
+function preferredStyles(preferences?: UserPreferences): string[] {
+    return (preferences?.preferredStyle ?? []).map(style => style.toLowerCase());
+}
+
+// 1 for a tagged match, 0.5 for untagged items, 0 for another style
+function itemStyleFit(item: WardrobeItem, styles: string[]): number {
+    if (styles.length === 0) {
+        return 1;
+    }
+    if (mentions(describe(item), styles)) {
+        return 1;
+    }
+    return item.style ? 0 : 0.5;
+}
+
+function scoreStyle(pieces: OutfitPiece[], preferences?: UserPreferences): FactorResult {
+    const styles = preferredStyles(preferences);
+    if (styles.length === 0) {
+        return { score: 1, explanation: "No preferred style set" };
+    }
+
+    const fits = pieces.map(piece => itemStyleFit(piece.item, styles));
+    const matching = pieces.filter((_, index) => fits[index] === 1).map(piece => piece.item.name);
+    const score = fits.reduce((sum, fit) => sum + fit, 0) / fits.length;
+    const wanted = list(preferences!.preferredStyle!);
+
+    return {
+        score,
+        explanation: matching.length > 0
+            ? `${list(matching)} ${matching.length === 1 ? "matches" : "match"} your ${wanted} style`
+            : `Nothing here is tagged ${wanted}`,
+    };
+}
+
+// 0 when out of place, 1 when it suits the occasion, 0.6 otherwise
+function itemOccasionFit(item: WardrobeItem, occasion: Occasion): number {
+    const rule = OCCASION_RULES[occasion];
+    const text = describe(item);
+    if (mentions(text, rule.avoid)) {
+        return 0;
+    }
+    return mentions(text, rule.styles) || mentions(text, rule.keywords) ? 1 : 0.6;
+}
+
+function scoreOccasion(pieces: OutfitPiece[], occasion: Occasion): FactorResult {
+    const fits = pieces.map(piece => itemOccasionFit(piece.item, occasion));
+    const names = (fit: number) => pieces.filter((_, index) => fits[index] === fit).map(piece => piece.item.name);
+    const suited = names(1);
+    const misplaced = names(0);
+
+    const notes: string[] = [];
+    if (suited.length > 0) {
+        notes.push(`${list(suited)} ${suited.length === 1 ? "suits" : "suit"} ${OCCASION_PHRASES[occasion]}`);
+    }
+    if (misplaced.length > 0) {
+        notes.push(`${list(misplaced)} ${misplaced.length === 1 ? "feels" : "feel"} out of place`);
+    }
+    if (notes.length === 0) {
+        notes.push(`Nothing special for ${OCCASION_PHRASES[occasion]}, but nothing out of place`);
+    }
+
+    return {
+        score: fits.reduce((sum, fit) => sum + fit, 0) / fits.length,
+        explanation: notes.join("; "),
+    };
+}
+
+export interface ScoredOutfit {
+    items: OutfitPiece[];
+    score: number;
+    factors: OutfitFactor[];
+}
+
+export function scoreOutfit(pieces: OutfitPiece[], context: RecommendationContext): ScoredOutfit {
+    const results: Record<OutfitFactorName, FactorResult> = {
+        temperature: scoreTemperature(pieces, context.weather),
+        precipitation: scorePrecipitation(pieces, context.weather),
+        color: scoreColor(pieces, context.preferences),
+        style: scoreStyle(pieces, context.preferences),
+        occasion: scoreOccasion(pieces, context.occasion),
+    };
+
+    const factors = (Object.keys(WEIGHTS) as OutfitFactorName[]).map(factor => ({
+        factor,
+        score: Math.round(results[factor].score * 100) / 100,
+        weight: WEIGHTS[factor],
+        explanation: capitalize(results[factor].explanation),
+    }));
+    const score = factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0);
+
+    return { items: pieces, score: Math.round(score * 100) / 100, factors };
+}
+
+// Every top/bottom pair or dress, each with or without an outer layer, with shoes when the
+// wardrobe has any and at most one accessory
+function candidateOutfits(wardrobe: WardrobeItem[], context: RecommendationContext): OutfitPiece[][] {
+    const band = context.weather ? temperatureBand(context.weather.temperature) : null;
+    const styles = preferredStyles(context.preferences);
+    const fit = (item: WardrobeItem) =>
+        (band ? itemTemperatureFit(item, band) : 0) +
+        itemStyleFit(item, styles) +
+        itemOccasionFit(item, context.occasion);
+
+    const bySlot = new Map<OutfitSlot, OutfitPiece[]>();
+    for (const item of wardrobe) {
+        const slot = SLOTS[item.category];
+        bySlot.set(slot, [...bySlot.get(slot) ?? [], { slot, item }]);
+    }
+    const best = (slot: OutfitSlot): OutfitPiece[] =>
+        [...bySlot.get(slot) ?? []]
+            .sort((first, second) => fit(second.item) - fit(first.item))
+            .slice(0, SLOT_CANDIDATES[slot]);
+
+    const tops = best("top");
+    const bottoms = best("bottom");
+    const bases: OutfitPiece[][] = [
+        ...tops.flatMap(top => bottoms.map(bottom => [top, bottom])),
+        ...best("dress").map(dress => [dress]),
+    ];
+    const outers: Array<OutfitPiece | null> = [null, ...best("outer")];
+    const shoes: Array<OutfitPiece | null> = bySlot.has("shoes") ? best("shoes") : [null];
+    const accessories: Array<OutfitPiece | null> = [null, ...best("accessory")];
+
+    return bases.flatMap(base => outers.flatMap(outer => shoes.flatMap(shoe => accessories.map(accessory =>
+        [...base, outer, shoe, accessory].filter((piece): piece is OutfitPiece => piece !== null)))));
+}
+
+// Rank candidate outfits, best first. Outfits that only differ in accessory are collapsed to
+// the best of them, so the results are real alternatives.
+export function recommendOutfits(wardrobe: WardrobeItem[], context: RecommendationContext, limit = 3): ScoredOutfit[] {
+    const ranked = candidateOutfits(wardrobe, context)
+        .map(pieces => scoreOutfit(pieces, context))
+        .sort((first, second) => second.score - first.score || signature(first).localeCompare(signature(second)));
+
+    const seen = new Set<string>();
+    const results: ScoredOutfit[] = [];
+    for (const outfit of ranked) {
+        const key = signature(outfit, { withAccessory: false });
+        if (seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        results.push(outfit);
+        if (results.length >= limit) {
+            break;
+        }
+    }
+    return results;
+}
+
+function signature(outfit: ScoredOutfit, options: { withAccessory?: boolean } = {}): string {
+    return outfit.items
+        .filter(piece => options.withAccessory !== false || piece.slot !== "accessory")
+        .map(piece => piece.item.id)
+        .join(",");
+}
+
+// The first preferred occasion we have rules for, else casual
+function defaultOccasion(preferences?: UserPreferences): Occasion {
+    const preferred = preferences?.occasions?.map(occasion => occasion.toLowerCase());
+    return preferred?.find((occasion): occasion is Occasion => (OCCASIONS as readonly string[]).includes(occasion))
+        ?? "casual";
+}
+
+// Loads the user's wardrobe and the local weather, then ranks outfits
+export class OutfitRecommender {
+    constructor(
+        private readonly wardrobe: WardrobeStore,
+        private readonly weather: WeatherService,
+        private readonly defaultLocation: Coordinates,
+    ) {}
+
+    async recommend(userId: string, request: RecommendationRequest): Promise<RecommendationResponse> {
+        const location = request.location ?? this.defaultLocation;
+        let weather: OutfitWeather | null = null;
+        try {
+            const { report } = await this.weather.get(location.latitude, location.longitude);
+            weather = summarizeWeather(report);
+        } catch (error) {
+            // Recommendations still work without weather, just less well
+            logger.warn("weather unavailable for recommendations", { error });
+        }
+
+        const occasion = request.occasion ?? defaultOccasion(request.preferences);
+        const outfits = recommendOutfits(this.wardrobe.all(userId), {
+            weather,
+            occasion,
+            preferences: request.preferences,
+        }, request.limit);
+
+        return { outfits, occasion, weather };
+    }
+}
+
+const OUTFIT_QUESTION = /\b(wear|outfits?|dress me)\b|コーデ|何を着|服/i;
+
+// Outfit recommendations as a chat tool, bound to the signed-in user and their request context
+export function createOutfitTool(
+    recommender: OutfitRecommender,
+    userId: string,
+    context: { location?: Coordinates; preferences?: UserPreferences } = {},
+): ChatTool {
+    return {
+        name: "recommend_outfits",
+        description:
+            "Suggest outfits from the user's wardrobe for today's weather, ranked with an explanation per factor " +
+            "(temperature, precipitation, color, style, occasion). Call this when the user asks what to wear.",
+        parameters: {
+            type: "object",
+            properties: {
+                occasion: { type: "string", enum: [...OCCASIONS], description: "What the outfit is for" },
+                limit: { type: "integer", minimum: 1, maximum: 10, description: "How many outfits to return" },
+            },
+            additionalProperties: false,
+        },
+        async execute(input) {
+            const parsed = recommendationRequestSchema
+                .pick({ occasion: true, limit: true })
+                .safeParse(input ?? {});
+            if (!parsed.success) {
+                return { error: "Invalid input", issues: parsed.error.issues.map(issue => issue.message) };
+            }
+            return recommender.recommend(userId, { ...context, ...parsed.data });
+        },
+        trigger: OUTFIT_QUESTION,
+        summarize(output) {
+            const { outfits, weather } = output as RecommendationResponse;
+            const top = outfits?.[0];
+            if (!top) {
+                return "I couldn't put an outfit together yet. Add some tops, bottoms or dresses to your wardrobe!";
+            }
+            const names = list(top.items.map(piece => piece.item.name));
+            const today = weather ? ` for ${Math.round(weather.temperature)}°C and ${weather.condition}` : "";
+            return `How about your ${names}${today}? ${top.factors.map(factor => factor.explanation).join(". ")}.`;
+        },
+    };
+}
@@ -0,0 +1,18 @@
+// Chat room naming. Rooms exist implicitly while someone is in them.
+
+export const DEFAULT_ROOM = "main";
+
+const ROOM_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export function normalizeRoomName(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+export function isValidRoomName(name: string): boolean {
+    return ROOM_NAME.test(name);
+}
+
+// Pub/sub topic for a room
+export function roomTopic(room: string): string {
+    return `room:${room}`;
+}
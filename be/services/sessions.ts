@@ -0,0 +1,254 @@
+import type { Database } from "bun:sqlite";
+import { decodeCursor, encodeCursor, isRecord, pageSize, type PageOptions } from "../lib/pagination";
+
+// Chat session persistence on top of the SQLite schema in lib/db.ts. Every session belongs to the
+// user who created it, and every read and write is scoped to that user.
+
+interface SessionRow {
+    id: string;
+    created_at: number;
+    last_activity: number;
+    context: string;
+}
+
+interface SessionSummaryRow extends SessionRow {
+    message_count: number;
+    preview: string | null;
+}
+
+interface MessageRow {
+    id: string;
+    seq: number;
+    sender: SessionMessage["sender"];
+    content: string;
+    type: SessionMessage["type"];
+    status: string | null;
+    lang: SessionMessage["lang"] | null;
+    metadata: string | null;
+    timestamp: number;
+    deleted_at: number | null;
+}
+
+export interface NewSessionInput {
+    id?: string;
+    context?: Record<string, unknown>;
+    messages?: SessionMessage[];
+}
+
+function toIso(timestamp: number): string {
+    return new Date(timestamp).toISOString();
+}
+
+function toMillis(value: string | undefined, fallback: number): number {
+    const parsed = value ? Date.parse(value) : NaN;
+    return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function rowToMessage(row: MessageRow): SessionMessage {
+    return {
+        id: row.id,
+        content: row.content,
+        sender: row.sender,
+        timestamp: toIso(row.timestamp),
+        type: row.type,
+        ...(row.lang ? { lang: row.lang } : {}),
+        ...(row.status ? { status: row.status } : {}),
+        ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+        ...(row.deleted_at !== null ? { deletedAt: toIso(row.deleted_at) } : {}),
+    };
+}
+
+export class SessionStore {
+    constructor(private readonly db: Database) {}
+
+    // Throws unless the sessions table can be read; the readiness check for storage
+    ping(): void {
+        this.db.query("SELECT 1 FROM sessions LIMIT 1").get();
+    }
+
+    // Null when `input.id` is taken, by this user or another
+    create(userId: string, input: NewSessionInput = {}): ChatSession | null {
+        const now = new Date().toISOString();
+        if (input.id && this.exists(input.id)) {
+            return null;
+        }
+        return this.save(userId, {
+            id: input.id ?? crypto.randomUUID(),
+            messages: input.messages ?? [],
+            createdAt: now,
+            lastActivity: now,
+            context: input.context ?? {},
+        });
+    }
+
+    // Whether any user has a session with this id
+    private exists(id: string): boolean {
+        return this.db.query("SELECT 1 FROM sessions WHERE id = $id").get({ id }) !== null;
+    }
+
+    private owns(userId: string, id: string): boolean {
+        return this.db.query("SELECT 1 FROM sessions WHERE id = $id AND user_id = $userId").get({ id, userId }) !== null;
+    }
+
+    get(userId: string, id: string): ChatSession | null {
+        const row = this.db
+            .query("SELECT * FROM sessions WHERE id = $id AND user_id = $userId")
+            .get({ id, userId }) as SessionRow | null;
+        if (!row) {
+            return null;
+        }
+
+        const messages = this.db
+            .query("SELECT * FROM messages WHERE session_id = $id ORDER BY seq")
+            .all({ id }) as MessageRow[];
+
+        return {
+            id: row.id,
+            messages: messages.map(rowToMessage),
+            createdAt: toIso(row.created_at),
+            lastActivity: toIso(row.last_activity),
+            context: JSON.parse(row.context),
+        };
+    }
+
+    // Insert or replace a session together with its full message history. Messages are upserted by
+    // id: stored ones keep their seq, so message cursors held by clients stay valid, new ones are
+    // appended after the last stored one, and stored ones missing from `session` are deleted.
+    // Null when the id belongs to another user's session.
+    save(userId: string, session: ChatSession): ChatSession | null {
+        if (this.exists(session.id) && !this.owns(userId, session.id)) {
+            return null;
+        }
+
+        const now = Date.now();
+        const latestMessage = session.messages.reduce(
+            (latest, message) => Math.max(latest, toMillis(message.timestamp, 0)),
+            0,
+        );
+        const lastActivity = Math.max(toMillis(session.lastActivity, now), latestMessage);
+
+        this.db.transaction(() => {
+            // created_at is kept from the first save so clients cannot rewrite history
+            this.db.query(`
+                INSERT INTO sessions (id, user_id, created_at, last_activity, context)
+                VALUES ($id, $userId, $createdAt, $lastActivity, $context)
+                ON CONFLICT (id) DO UPDATE SET last_activity = excluded.last_activity, context = excluded.context
+            `).run({
+                id: session.id,
+                userId,
+                createdAt: toMillis(session.createdAt, now),
+                lastActivity,
+                context: JSON.stringify(session.context ?? {}),
+            });
+
+            // Taken before deleting, so a seq is never handed out twice
+            const { seq: lastSeq } = this.db
+                .query("SELECT COALESCE(MAX(seq), -1) AS seq FROM messages WHERE session_id = $id")
+                .get({ id: session.id }) as { seq: number };
+            const stored = new Set((this.db
+                .query("SELECT id FROM messages WHERE session_id = $id")
+                .all({ id: session.id }) as { id: string }[]).map(row => row.id));
+
+            this.db.query(`
+                DELETE FROM messages
+                WHERE session_id = $id AND id NOT IN (SELECT value FROM json_each($ids))
+            `).run({ id: session.id, ids: JSON.stringify(session.messages.map(message => message.id)) });
+
+            const upsert = this.db.query(`
+                INSERT INTO messages (session_id, id, seq, sender, content, type, status, lang, metadata, timestamp, deleted_at)
+                VALUES ($sessionId, $id, $seq, $sender, $content, $type, $status, $lang, $metadata, $timestamp, $deletedAt)
+                ON CONFLICT (session_id, id) DO UPDATE SET
+                    sender = excluded.sender, content = excluded.content, type = excluded.type,
+                    status = excluded.status, lang = excluded.lang, metadata = excluded.metadata,
+                    timestamp = excluded.timestamp, deleted_at = excluded.deleted_at
+            `);
+            let nextSeq = lastSeq + 1;
+            for (const message of session.messages) {
+                upsert.run({
+                    sessionId: session.id,
+                    id: message.id,
+                    // Ignored for stored messages, whose seq the upsert leaves alone
+                    seq: stored.has(message.id) ? -1 : nextSeq++,
+                    sender: message.sender,
+                    content: message.content,
+                    type: message.type,
+                    status: message.status ?? null,
+                    lang: message.lang ?? null,
+                    metadata: message.metadata ? JSON.stringify(message.metadata) : null,
+                    timestamp: toMillis(message.timestamp, now),
+                    deletedAt: message.deletedAt ? toMillis(message.deletedAt, now) : null,
+                });
+            }
+        })();
+
+        return this.get(userId, session.id);
+    }
+
+    delete(userId: string, id: string): boolean {
+        return this.db.query("DELETE FROM sessions WHERE id = $id AND user_id = $userId").run({ id, userId }).changes > 0;
+    }
+
+    // The user's most recently active sessions first
+    list(userId: string, options: PageOptions = {}): ChatSessionListResponse {
+        const limit = pageSize(options.limit);
+        const after = options.cursor
+            ? decodeCursor(options.cursor, (value): value is { t: number; id: string } =>
+                isRecord(value) && typeof value.t === "number" && typeof value.id === "string")
+            : null;
+
+        const rows = this.db.query(`
+            SELECT s.*,
+                (SELECT COUNT(*) FROM messages m WHERE m.session_id = s.id) AS message_count,
+                (SELECT m.content FROM messages m
+                    WHERE m.session_id = s.id AND m.deleted_at IS NULL
+                    ORDER BY m.seq DESC LIMIT 1) AS preview
+            FROM sessions s
+            WHERE s.user_id = $userId
+                AND ($t IS NULL OR s.last_activity < $t OR (s.last_activity = $t AND s.id < $id))
+            ORDER BY s.last_activity DESC, s.id DESC
+            LIMIT $limit
+        `).all({ userId, t: after?.t ?? null, id: after?.id ?? null, limit: limit + 1 }) as SessionSummaryRow[];
+
+        const page = rows.slice(0, limit);
+        const last = page.at(-1);
+
+        return {
+            sessions: page.map(row => ({
+                id: row.id,
+                createdAt: toIso(row.created_at),
+                lastActivity: toIso(row.last_activity),
+                messageCount: row.message_count,
+                ...(row.preview ? { preview: row.preview.slice(0, 120) } : {}),
+            })),
+            nextCursor: rows.length > limit && last ? encodeCursor({ t: last.last_activity, id: last.id }) : null,
+        };
+    }
+
+    // Pages backwards from the newest message; each page is returned in chronological order.
+    // Returns null when the user has no such session.
+    listMessages(userId: string, sessionId: string, options: PageOptions = {}): SessionMessagesResponse | null {
+        if (!this.owns(userId, sessionId)) {
+            return null;
+        }
+
+        const limit = pageSize(options.limit);
+        const before = options.cursor
+            ? decodeCursor(options.cursor, (value): value is { seq: number } => isRecord(value) && Number.isInteger(value.seq))
+            : null;
+
+        const rows = this.db.query(`
+            SELECT * FROM messages
+            WHERE session_id = $sessionId AND ($seq IS NULL OR seq < $seq)
+            ORDER BY seq DESC
+            LIMIT $limit
+        `).all({ sessionId, seq: before?.seq ?? null, limit: limit + 1 }) as MessageRow[];
+
+        const page = rows.slice(0, limit).reverse();
+        const oldest = page[0];
+
+        return {
+            messages: page.map(rowToMessage),
+            nextCursor: rows.length > limit && oldest ? encodeCursor({ seq: oldest.seq }) : null,
+        };
+    }
+}
@@ -0,0 +1,181 @@
+import type { Database } from "bun:sqlite";
+import type { NewWardrobeItem, WardrobeFilters, WardrobeItemUpdate } from "@shared/wardrobe";
+import { decodeCursor, encodeCursor, isRecord, pageSize, type PageOptions } from "../lib/pagination";
+
+// Wardrobe persistence on top of the SQLite schema in lib/db.ts. Every query is scoped to
+// the owning user, so another user's item ids behave as if they did not exist.
+
+interface WardrobeRow {
+    id: string;
+    user_id: string;
+    name: string;
+    category: WardrobeItem["category"];
+    image_url: string | null;
+    colors: string;
+    seasons: string;
+    style: string | null;
+    purchase_price: number | null;
+    currency: string | null;
+    purchase_date: string | null;
+    created_at: number;
+    updated_at: number;
+}
+
+function rowToItem(row: WardrobeRow): WardrobeItem {
+    return {
+        id: row.id,
+        name: row.name,
+        category: row.category,
+        ...(row.image_url !== null ? { imageUrl: row.image_url } : {}),
+        colors: JSON.parse(row.colors),
+        seasons: JSON.parse(row.seasons),
+        ...(row.style !== null ? { style: row.style } : {}),
+        ...(row.purchase_price !== null ? { purchasePrice: row.purchase_price } : {}),
+        ...(row.currency !== null ? { currency: row.currency } : {}),
+        ...(row.purchase_date !== null ? { purchaseDate: row.purchase_date } : {}),
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+    };
+}
+
+export class WardrobeStore {
+    constructor(private readonly db: Database) {}
+
+    private row(userId: string, id: string): WardrobeRow | null {
+        return this.db
+            .query("SELECT * FROM wardrobe_items WHERE id = $id AND user_id = $userId")
+            .get({ id, userId }) as WardrobeRow | null;
+    }
+
+    private write(row: WardrobeRow): void {
+        this.db.query(`
+            INSERT INTO wardrobe_items (id, user_id, name, category, image_url, colors, seasons, style,
+                purchase_price, currency, purchase_date, created_at, updated_at)
+            VALUES ($id, $userId, $name, $category, $imageUrl, $colors, $seasons, $style,
+                $purchasePrice, $currency, $purchaseDate, $createdAt, $updatedAt)
+            ON CONFLICT (id) DO UPDATE SET
+                name = excluded.name, category = excluded.category, image_url = excluded.image_url,
+                colors = excluded.colors, seasons = excluded.seasons, style = excluded.style,
+                purchase_price = excluded.purchase_price, currency = excluded.currency,
+                purchase_date = excluded.purchase_date, updated_at = excluded.updated_at
+        `).run({
+            id: row.id,
+            userId: row.user_id,
+            name: row.name,
+            category: row.category,
+            imageUrl: row.image_url,
+            colors: row.colors,
+            seasons: row.seasons,
+            style: row.style,
+            purchasePrice: row.purchase_price,
+            currency: row.currency,
+            purchaseDate: row.purchase_date,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        });
+    }
+
+    get(userId: string, id: string): WardrobeItem | null {
+        const row = this.row(userId, id);
+        return row ? rowToItem(row) : null;
+    }
+
+    create(userId: string, input: NewWardrobeItem): WardrobeItem {
+        const now = Date.now();
+        const row: WardrobeRow = {
+            id: crypto.randomUUID(),
+            user_id: userId,
+            name: input.name,
+            category: input.category,
+            image_url: input.imageUrl ?? null,
+            colors: JSON.stringify(input.colors),
+            seasons: JSON.stringify(input.seasons),
+            style: input.style ?? null,
+            purchase_price: input.purchasePrice ?? null,
+            currency: input.currency ?? null,
+            purchase_date: input.purchaseDate ?? null,
+            created_at: now,
+            updated_at: now,
+        };
+        this.write(row);
+        return rowToItem(row);
+    }
+
+    // Apply the fields present in `changes`; returns null when the item does not exist
+    update(userId: string, id: string, changes: WardrobeItemUpdate): WardrobeItem | null {
+        const existing = this.row(userId, id);
+        if (!existing) {
+            return null;
+        }
+
+        // undefined keeps the stored value, null clears it
+        const pick = <T>(value: T | null | undefined, current: T | null): T | null =>
+            value === undefined ? current : value;
+
+        const row: WardrobeRow = {
+            ...existing,
+            name: changes.name ?? existing.name,
+            category: changes.category ?? existing.category,
+            image_url: pick(changes.imageUrl, existing.image_url),
+            colors: changes.colors ? JSON.stringify(changes.colors) : existing.colors,
+            seasons: changes.seasons ? JSON.stringify(changes.seasons) : existing.seasons,
+            style: pick(changes.style, existing.style),
+            purchase_price: pick(changes.purchasePrice, existing.purchase_price),
+            currency: pick(changes.currency, existing.currency),
+            purchase_date: pick(changes.purchaseDate, existing.purchase_date),
+            updated_at: Date.now(),
+        };
+        this.write(row);
+        return rowToItem(row);
+    }
+
+    delete(userId: string, id: string): boolean {
+        return this.db
+            .query("DELETE FROM wardrobe_items WHERE id = $id AND user_id = $userId")
+            .run({ id, userId }).changes > 0;
+    }
+
+    // Everything the user owns, newest first, for the outfit recommender
+    all(userId: string, limit = 500): WardrobeItem[] {
+        const rows = this.db
+            .query("SELECT * FROM wardrobe_items WHERE user_id = $userId ORDER BY created_at DESC, id DESC LIMIT $limit")
+            .all({ userId, limit }) as WardrobeRow[];
+        return rows.map(rowToItem);
+    }
+
+    // Newest items first. The color filter matches any of an item's colors, ignoring case.
+    list(userId: string, filters: WardrobeFilters = {}, options: PageOptions = {}): WardrobeListResponse {
+        const limit = pageSize(options.limit);
+        const after = options.cursor
+            ? decodeCursor(options.cursor, (value): value is { t: number; id: string } =>
+                isRecord(value) && typeof value.t === "number" && typeof value.id === "string")
+            : null;
+
+        const rows = this.db.query(`
+            SELECT * FROM wardrobe_items w
+            WHERE w.user_id = $userId
+                AND ($category IS NULL OR w.category = $category)
+                AND ($season IS NULL OR EXISTS (SELECT 1 FROM json_each(w.seasons) WHERE value = $season))
+                AND ($color IS NULL OR EXISTS (SELECT 1 FROM json_each(w.colors) WHERE lower(value) = lower($color)))
+                AND ($t IS NULL OR w.created_at < $t OR (w.created_at = $t AND w.id < $id))
+            ORDER BY w.created_at DESC, w.id DESC
+            LIMIT $limit
+        `).all({
+            userId,
+            category: filters.category ?? null,
+            season: filters.season ?? null,
+            color: filters.color ?? null,
+            t: after?.t ?? null,
+            id: after?.id ?? null,
+            limit: limit + 1,
+        }) as WardrobeRow[];
+
+        const page = rows.slice(0, limit);
+        const last = page.at(-1);
+
+        return {
+            items: page.map(rowToItem),
+            nextCursor: rows.length > limit && last ? encodeCursor({ t: last.created_at, id: last.id }) : null,
+        };
+    }
+}
@@ -0,0 +1,114 @@
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { PcmAudio } from "../lib/audio-container";
+import { TtlCache } from "../lib/cache";
+import type { Logger } from "../lib/logger";
+import { decodeWav } from "../lib/wav";
+import { computePeaks, DEFAULT_PEAK_COUNT } from "../lib/waveform";
+
+// Waveform peaks for uploaded voice messages. PCM WAV is decoded here; other formats go through
+// a local ffmpeg when one is configured and get no waveform otherwise. Peaks are cached by the
+// audio's content hash, so a retried upload or a file sent twice is not decoded again.
+
+export interface WaveformServiceOptions {
+    peaks?: number;                 // Default 64
+    ffmpegPath?: string;            // Executable name on PATH or absolute path
+    timeoutMs?: number;             // Per ffmpeg run, default 30 seconds
+    cacheTtlMs?: number;            // Default 1 hour
+}
+
+// What ffmpeg decodes to: mono, and far fewer samples than playback needs, which peaks don't
+const DECODE_SAMPLE_RATE = 4000;
+
+const NATIVE_CODECS = ["pcm", "pcm_float"];
+
+export class WaveformService {
+    private readonly cache: TtlCache<string, number[]>;
+    private readonly peaks: number;
+
+    constructor(private readonly options: WaveformServiceOptions = {}) {
+        this.cache = new TtlCache(options.cacheTtlMs ?? 60 * 60 * 1000, 500);
+        this.peaks = options.peaks ?? DEFAULT_PEAK_COUNT;
+    }
+
+    // Readiness probe: a configured ffmpeg must be runnable
+    check(): void {
+        if (this.options.ffmpegPath && !Bun.which(this.options.ffmpegPath)) {
+            throw new Error(`ffmpeg not found: ${this.options.ffmpegPath}`);
+        }
+    }
+
+    // Peaks from 0 to 1, or null when the audio cannot be decoded. Never throws: a voice message
+    // is still worth transcribing without its waveform.
+    async generate(audio: File, info: AudioInfo, options: { signal?: AbortSignal; log?: Logger } = {}): Promise<number[] | null> {
+        const bytes = new Uint8Array(await audio.arrayBuffer());
+        const key = new Bun.CryptoHasher("sha256").update(bytes).digest("hex");
+
+        const cached = this.cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const pcm = await this.decode(bytes, info, options.signal);
+            if (!pcm) {
+                return null;
+            }
+            const peaks = computePeaks(pcm, this.peaks);
+            this.cache.set(key, peaks);
+            return peaks;
+        } catch (error) {
+            options.log?.warn("waveform generation failed", { error, mimeType: info.mimeType, codec: info.codec });
+            return null;
+        }
+    }
+
+    private async decode(bytes: Uint8Array, info: AudioInfo, signal?: AbortSignal): Promise<PcmAudio | null> {
+        if (info.mimeType === "audio/wav" && NATIVE_CODECS.includes(info.codec)) {
+            return decodeWav(bytes);
+        }
+        return this.options.ffmpegPath ? this.decodeWithFfmpeg(this.options.ffmpegPath, bytes, signal) : null;
+    }
+
+    // Decoded from a temporary file rather than stdin, since MP4s with the index at the end need seeking
+    private async decodeWithFfmpeg(binary: string, bytes: Uint8Array, signal?: AbortSignal): Promise<PcmAudio> {
+        const input = join(tmpdir(), `kawaii-waveform-${crypto.randomUUID()}`);
+        try {
+            await Bun.write(input, bytes);
+
+            let proc: Bun.Subprocess<"ignore", "pipe", "pipe">;
+            try {
+                proc = Bun.spawn([
+                    binary, "-hide_banner", "-loglevel", "error", "-nostdin",
+                    "-i", input, "-ac", "1", "-ar", String(DECODE_SAMPLE_RATE), "-f", "f32le", "pipe:1",
+                ], {
+                    stdin: "ignore",
+                    stdout: "pipe",
+                    stderr: "pipe",
+                    timeout: this.options.timeoutMs ?? 30_000,
+                    signal,
+                });
+            } catch (error) {
+                throw new Error(`Failed to start ${binary}`, { cause: error });
+            }
+
+            const [output, stderr, exitCode] = await Promise.all([
+                new Response(proc.stdout).arrayBuffer(),
+                new Response(proc.stderr).text(),
+                proc.exited,
+            ]);
+            if (exitCode !== 0) {
+                throw new Error(`${binary} exited with code ${exitCode}: ${stderr.trim().slice(-500)}`);
+            }
+
+            return {
+                sampleRate: DECODE_SAMPLE_RATE,
+                channels: 1,
+                samples: new Float32Array(output, 0, Math.floor(output.byteLength / 4)),
+            };
+        } finally {
+            await rm(input, { force: true });
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { TtlCache } from "../lib/cache";
+import type { WeatherProvider } from "../providers/weather";
+
+// Weather lookups cached per area. Coordinates are rounded before lookup, so nearby
+// requests share one provider call; concurrent misses for an area share it too.
+
+export interface WeatherServiceOptions {
+    ttlMs?: number;             // Default 10 minutes
+    precision?: number;         // Decimal places kept from coordinates (default 1, roughly 11km)
+}
+
+export class WeatherService {
+    private readonly cache: TtlCache<string, WeatherReport>;
+    private readonly pending = new Map<string, Promise<WeatherReport>>();
+    private readonly precision: number;
+
+    constructor(private readonly provider: WeatherProvider, options: WeatherServiceOptions = {}) {
+        this.cache = new TtlCache(options.ttlMs ?? 10 * 60 * 1000);
+        this.precision = options.precision ?? 1;
+    }
+
+    private round(value: number): number {
+        const factor = 10 ** this.precision;
+        return Math.round(value * factor) / factor;
+    }
+
+    // `cached` is true when the report came from the cache rather than a provider call
+    async get(latitude: number, longitude: number): Promise<{ report: WeatherReport; cached: boolean }> {
+        const lat = this.round(latitude);
+        const lon = this.round(longitude);
+        const key = `${lat},${lon}`;
+
+        const cached = this.cache.get(key);
+        if (cached) {
+            return { report: cached, cached: true };
+        }
+
+        let request = this.pending.get(key);
+        if (!request) {
+            request = this.provider.fetch(lat, lon)
+                .then(report => {
+                    this.cache.set(key, report);
+                    return report;
+                })
+                .finally(() => this.pending.delete(key));
+            this.pending.set(key, request);
+        }
+
+        return { report: await request, cached: false };
+    }
+}
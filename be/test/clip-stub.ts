@@ -0,0 +1,56 @@
+// Stand-in for a CLIP-style classification service, for running the backend with CLOTHING_RECOGNIZER=http:
+//   bun test/clip-stub.ts
+//   CLOTHING_RECOGNIZER=http CLOTHING_RECOGNIZER_URL=http://localhost:3020 bun index.ts
+// Scores are derived from the image bytes, so the same image always gets the same labels.
+const port = Number(Bun.env.CLIP_STUB_PORT ?? 3020);
+
+// Turn arbitrary weights into probabilities that sum to 1, like CLIP's softmax over labels
+function softmax(weights: number[]): number[] {
+  const max = Math.max(...weights);
+  const exps = weights.map(weight => Math.exp(weight - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+}
+
+function score(digest: number, labels: string[]): number[] {
+  return softmax(labels.map(label => (Bun.hash.crc32(`${digest}:${label}`) % 1000) / 200));
+}
+
+// A made-up box per garment label, so the backend's per-item colors can be exercised
+function box(digest: number, label: string): { x: number; y: number; width: number; height: number } {
+  const hash = Bun.hash.crc32(`${digest}:box:${label}`);
+  const width = (30 + hash % 40) / 100;
+  const height = (30 + (hash >>> 8) % 40) / 100;
+  const x = Math.floor(((hash >>> 16) % 100) * (1 - width)) / 100;
+  const y = Math.floor(((hash >>> 24) % 100) * (1 - height)) / 100;
+  return { x, y, width, height };
+}
+
+const server = Bun.serve({
+  port,
+  async fetch(req) {
+    const url = new URL(req.url);
+    if (req.method !== "POST" || url.pathname !== "/classify") {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const form = await req.formData();
+    const image = form.get("image");
+    const labels = JSON.parse(String(form.get("labels") ?? "{}")) as Record<string, string[]>;
+    if (!(image instanceof Blob)) {
+      return Response.json({ error: "image is required" }, { status: 400 });
+    }
+
+    const digest = Bun.hash.crc32(new Uint8Array(await image.arrayBuffer()));
+    const scores = Object.fromEntries(
+      Object.entries(labels).map(([group, groupLabels]) => [group, score(digest, groupLabels)])
+    );
+
+    const boxes = (labels.item ?? []).map(label => box(digest, label));
+
+    console.log(`Classified ${image.size} bytes against ${Object.keys(labels).join(", ")}`);
+    return Response.json({ scores, boxes });
+  },
+});
+
+console.log(`🧥 CLIP stub listening on http://localhost:${server.port}/classify`);
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { deflateSync } from "node:zlib";
+import { decodeImage } from "../lib/image";
+import { decodePng } from "../lib/png";
+import { ImageDecodeError } from "../lib/raster";
+
+// Run with `bun test`. Decompression bombs must fail fast instead of running the server out of memory.
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const body = new Uint8Array([...new TextEncoder().encode(type), ...data]);
+  const out = new DataView(new ArrayBuffer(12 + data.length));
+  out.setUint32(0, data.length);
+  new Uint8Array(out.buffer).set(body, 4);
+  out.setUint32(8 + data.length, Bun.hash.crc32(body));
+  return new Uint8Array(out.buffer);
+}
+
+// 8-bit grayscale PNG with the given header size and pixel data
+function grayPng(width: number, height: number, idat: Uint8Array): Uint8Array {
+  const header = new DataView(new ArrayBuffer(13));
+  header.setUint32(0, width);
+  header.setUint32(4, height);
+  header.setUint8(8, 8);
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk("IHDR", new Uint8Array(header.buffer)),
+    ...chunk("IDAT", idat),
+    ...chunk("IEND", new Uint8Array()),
+  ]);
+}
+
+describe("decodePng", () => {
+  test("decodes a small image", () => {
+    const rows = new Uint8Array([0, 10, 20, 0, 30, 40]);
+    const image = decodePng(grayPng(2, 2, deflateSync(rows)));
+    expect(image.width).toBe(2);
+    expect([...image.data.subarray(0, 4)]).toEqual([10, 10, 10, 255]);
+  });
+
+  test("rejects images over maxPixels from the header alone", () => {
+    const png = grayPng(10_000, 10_000, deflateSync(new Uint8Array(16)));
+    expect(png.length).toBeLessThan(100);
+    expect(() => decodeImage(png, { maxPixels: 1024 * 1024 })).toThrow(ImageDecodeError);
+    expect(() => decodeImage(png, { maxPixels: 1024 * 1024 })).toThrow("PNG is too large (10000x10000)");
+  });
+
+  test("stops inflating past the expected scanlines", () => {
+    const png = grayPng(4, 4, deflateSync(new Uint8Array(64 * 1024 * 1024)));
+    expect(() => decodePng(png)).toThrow("PNG image data is corrupt");
+  });
+});
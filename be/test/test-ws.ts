@@ -1,5 +1,20 @@
 // Simple WebSocket test client
-const ws = new WebSocket("ws://localhost:3001/chat?username=TestUser");
+const credentials = { username: "TestUser", password: "test-password" };
+
+// Sign in (creating the account on first run) to get a session token
+let auth = await fetch("http://localhost:3001/api/auth/signin", {
+  method: "POST",
+  body: JSON.stringify(credentials),
+});
+if (auth.status === 401) {
+  auth = await fetch("http://localhost:3001/api/auth/signup", {
+    method: "POST",
+    body: JSON.stringify(credentials),
+  });
+}
+const { token } = await auth.json() as { token: string };
+
+const ws = new WebSocket(`ws://localhost:3001/chat?token=${encodeURIComponent(token)}`);
 
 ws.addEventListener("open", () => {
   console.log("✅ Connected to WebSocket");
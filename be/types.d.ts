@@ -1,35 +1,93 @@
-interface ChatMessage {
-  text: string;
-  role: "user" | "assistant";
-}
+// Chat wire types are inferred from the zod schemas shared with the frontend
+type ChatMessage = import("@shared/chat").ChatMessage;
+type ChatRequestBody = import("@shared/chat").ChatRequest;
+type ChatResponse = import("@shared/chat").ChatResponse;
 
-interface ChatRequest {
+// A validated request as handed to chat providers: messages normalized, model resolved
+type ChatRequest = Omit<ChatRequestBody, "messages" | "model"> & {
   messages: ChatMessage[];
   model: string;
-  webSearch: boolean;
-}
+};
+
+type ClothingItem = import("@shared/clothing").ClothingItem;
+type PaletteColor = import("@shared/clothing").PaletteColor;
+type BoundingBox = import("@shared/clothing").BoundingBox;
+type ImageUploadResponse = import("@shared/clothing").ImageUploadResponse;
+type VoiceUploadResponse = import("@shared/voice").VoiceUploadResponse;
+type AudioInfo = import("@shared/voice").AudioInfo;
+type WeatherReport = import("@shared/weather").WeatherReport;
+type WeatherResponse = import("@shared/weather").WeatherResponse;
+type WardrobeItem = import("@shared/wardrobe").WardrobeItem;
+type WardrobeListResponse = import("@shared/wardrobe").WardrobeListResponse;
+type RecommendationResponse = import("@shared/outfits").RecommendationResponse;
+type ColorHarmony = import("@shared/outfits").ColorHarmony;
+type UserPreferences = import("@shared/preferences").UserPreferences;
+type PreferencesResponse = import("@shared/preferences").PreferencesResponse;
 
-interface ChatResponse {
-  role: "assistant";
-  content: string;
+interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
 }
 
 interface TranscribeResponse {
   transcription?: string;
+  language?: string;
+  duration?: number;
+  segments?: TranscriptionSegment[];
+  audio?: AudioInfo;      // From the uploaded file's container
+  waveform?: number[];    // Peaks from 0 to 1 for drawing the voice message
   success: boolean;
   error?: string;
+  messageId?: string;
 }
 
 interface WebSocketData {
   username: string;
   joinedAt: number;
   userId: string;
+  connectionId: string;
+  requestId: string;      // Of the upgrade request, to join the connection's log lines to it
+  room: string;           // Room from the ?room= query parameter, the default for outgoing chat
+  rooms: Set<string>;     // Every room this connection has joined
 }
 
 interface WebSocketMessage {
-  type: "chat" | "join" | "leave" | "user_list";
+  type: "chat" | "join" | "leave" | "user_list" | "join_room" | "leave_room" | "server_shutdown";
   content?: string;
   username?: string;
   timestamp?: number;
   users?: string[];
+  room?: string;
+  reconnectAfterMs?: number;  // server_shutdown: how long to wait before reconnecting
+}
+
+interface RoomInfo {
+  name: string;
+  userCount: number;
+  users: string[];
+}
+
+interface RoomListResponse {
+  rooms: RoomInfo[];
+}
+
+// Persisted chat sessions (mirrors ChatSession/Message in fe/types/chat.ts; dates are ISO strings)
+type SessionMessage = import("@shared/sessions").SessionMessage;
+type ChatSession = import("@shared/sessions").ChatSession;
+type ChatSessionSummary = import("@shared/sessions").ChatSessionSummary;
+type ChatSessionListResponse = import("@shared/sessions").ChatSessionListResponse;
+type SessionMessagesResponse = import("@shared/sessions").SessionMessagesResponse;
+
+// Accounts and authentication
+interface AuthUser {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+interface AuthResponse {
+  user: AuthUser;
+  token: string;
+  expiresAt: string;
 }
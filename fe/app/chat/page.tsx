@@ -1,10 +1,12 @@
 "use client";
 
 import type React from "react";
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef } from "react";
 // import { ChatContainer } from "@/components/chat/chat-container-new";
 import { useChatStore } from "@/hooks/use-chat-store";
+import { useChatHistory } from "@/hooks/use-chat-history";
 import Navbar from "@/components/navbar";
+import OnboardingWizard from "@/components/onboarding-wizard";
 import AnimatedBackground from "@/components/animated-background";
 import CloudAnimated from "@/components/cloud-animated";
 import WavyMesh from "@/components/wavy-mesh";
@@ -22,9 +24,40 @@ import WavyMesh from "@/components/wavy-mesh";
  * - Image upload and recognition
  * - Weather-aware fashion recommendations
  * - Multi-language support (Japanese/English)
+ * - First-run onboarding that collects style preferences
+ * - Server-side session history that survives reloads and device switches
  */
 export default function ChatPage(): React.JSX.Element {
-    const { messages, clearMessages } = useChatStore();
+    const { messages, clearMessages, replaceMessages } = useChatStore();
+    const { currentSession, saveSession, createNewSession } = useChatHistory();
+
+    // Latest session in a ref so saving does not re-trigger the save effect
+    const sessionRef = useRef(currentSession);
+    sessionRef.current = currentSession;
+
+    // Show the stored messages whenever a saved session becomes active.
+    // A freshly created session is empty and must not wipe what the user just typed.
+    useEffect(() => {
+        if (sessionRef.current && sessionRef.current.messages.length > 0) {
+            replaceMessages(sessionRef.current.messages);
+        }
+    }, [currentSession?.id, replaceMessages]);
+
+    // Persist the conversation shortly after it changes
+    useEffect(() => {
+        if (messages.length === 0) {
+            return;
+        }
+
+        const timeout = setTimeout(() => {
+            const session = sessionRef.current ?? createNewSession();
+            saveSession({ ...session, messages, lastActivity: new Date() }).catch((error) => {
+                console.error('Failed to save chat session:', error);
+            });
+        }, 500);
+
+        return () => clearTimeout(timeout);
+    }, [messages, saveSession, createNewSession]);
 
     // Handle new chat creation with confirmation
     const handleNewChat = useCallback(() => {
@@ -42,9 +75,10 @@ export default function ChatPage(): React.JSX.Element {
             }
         }
         
-        // Clear messages using store
+        // Clear messages using store and start a fresh server session
         clearMessages();
-    }, [messages, clearMessages]);
+        createNewSession();
+    }, [messages, clearMessages, createNewSession]);
 
     return (
         <main className="relative w-full h-screen bg-background">
@@ -65,6 +99,8 @@ export default function ChatPage(): React.JSX.Element {
                     Hello World
                 </div>
             </div>
+
+            <OnboardingWizard />
         </main>
     );
 }
@@ -0,0 +1,136 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import Navbar from "@/components/navbar";
+import AnimatedBackground from "@/components/animated-background";
+import SignInDialog from "@/components/sign-in-dialog";
+import { PREFERENCE_STEPS, PreferenceFields, preferenceLabels } from "@/components/preference-fields";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuthStore } from "@/hooks/use-auth-store";
+import { useLanguage } from "@/hooks/use-language";
+import { usePreferencesStore } from "@/hooks/use-preferences-store";
+import type { Language } from "@/contexts/language-context";
+import type { UserPreferences } from "@/lib/api";
+
+const labels = {
+    EN: {
+        title: "Settings",
+        subtitle: "Tell Marin-chan what you like, and she will keep it in mind when styling you.",
+        signInPrompt: "Sign in to edit your preferences.",
+        signIn: "Sign In",
+        save: "Save",
+        saving: "Saving...",
+        saved: "Saved!",
+        loading: "Loading...",
+    },
+    JP: {
+        title: "設定",
+        subtitle: "好みを教えてくれたら、まりんちゃんがコーデのときに覚えておくね。",
+        signInPrompt: "ログインすると好みを編集できるよ。",
+        signIn: "ログイン",
+        save: "保存",
+        saving: "保存中…",
+        saved: "保存しました！",
+        loading: "読み込み中…",
+    },
+} satisfies Record<Language, unknown>;
+
+/**
+ * Settings page route (/settings)
+ *
+ * Edits the signed-in user's fashion preferences, the same ones the onboarding wizard collects.
+ */
+export default function SettingsPage(): React.JSX.Element {
+    const { currentLang } = useLanguage();
+    const { token } = useAuthStore();
+    const { preferences, onboarding, isLoading, isSaving, error, load, save, reset } = usePreferencesStore();
+    const [draft, setDraft] = useState<UserPreferences>({});
+    const [saved, setSaved] = useState(false);
+    const [signInOpen, setSignInOpen] = useState(false);
+
+    const text = labels[currentLang];
+
+    useEffect(() => {
+        if (!token) {
+            reset();
+            return;
+        }
+        load(token);
+    }, [token, load, reset]);
+
+    useEffect(() => {
+        setDraft(preferences);
+    }, [preferences]);
+
+    const handleChange = (value: UserPreferences) => {
+        setDraft(value);
+        setSaved(false);
+    };
+
+    // Saving here also counts as finishing onboarding, so the wizard does not reappear
+    const handleSave = async () => {
+        if (!token) return;
+        try {
+            await save(token, draft, onboarding === "pending" ? "completed" : undefined);
+            setSaved(true);
+        } catch {
+            // The store keeps the error message for display
+        }
+    };
+
+    return (
+        <main className="relative w-full min-h-screen bg-background">
+            <AnimatedBackground />
+
+            <div className="relative z-30 w-full flex flex-col items-center">
+                <Navbar />
+                <section className="w-full max-w-3xl px-6 sm:px-8 lg:px-12 pb-12 grid gap-6">
+                    <header className="grid gap-1">
+                        <h1 className="text-3xl font-bold text-foreground">{text.title}</h1>
+                        <p className="text-foreground/70">{text.subtitle}</p>
+                    </header>
+
+                    {!token ? (
+                        <div className="grid justify-items-start gap-3">
+                            <p className="text-foreground/80">{text.signInPrompt}</p>
+                            <Button onClick={() => setSignInOpen(true)}>{text.signIn}</Button>
+                        </div>
+                    ) : isLoading && onboarding === null ? (
+                        <p className="text-foreground/70">{text.loading}</p>
+                    ) : (
+                        <>
+                            {PREFERENCE_STEPS.map((step) => (
+                                <Card key={step}>
+                                    <CardContent className="grid gap-3">
+                                        <div className="grid gap-1">
+                                            <h2 className="font-medium">{preferenceLabels[currentLang].steps[step].title}</h2>
+                                            <p className="text-sm text-foreground/70">
+                                                {preferenceLabels[currentLang].steps[step].description}
+                                            </p>
+                                        </div>
+                                        <PreferenceFields step={step} value={draft} onChange={handleChange} lang={currentLang} />
+                                    </CardContent>
+                                </Card>
+                            ))}
+
+                            {error && (
+                                <p role="alert" className="text-sm text-destructive">{error}</p>
+                            )}
+
+                            <div className="flex items-center gap-3">
+                                <Button disabled={isSaving} onClick={handleSave}>
+                                    {isSaving ? text.saving : text.save}
+                                </Button>
+                                {saved && <span className="text-sm text-foreground/70">{text.saved}</span>}
+                            </div>
+                        </>
+                    )}
+                </section>
+            </div>
+
+            <SignInDialog open={signInOpen} onOpenChange={setSignInOpen} />
+        </main>
+    );
+}
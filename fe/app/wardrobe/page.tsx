@@ -0,0 +1,254 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import Navbar from "@/components/navbar";
+import AnimatedBackground from "@/components/animated-background";
+import SignInDialog from "@/components/sign-in-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuthStore } from "@/hooks/use-auth-store";
+import { useLanguage } from "@/hooks/use-language";
+import { useWardrobeStore } from "@/hooks/use-wardrobe-store";
+import type { Language } from "@/contexts/language-context";
+import type { WardrobeItem } from "@/lib/api";
+import { findNamedColor } from "@shared/colors";
+import { SEASONS, WARDROBE_CATEGORIES, type Season, type WardrobeCategory } from "@shared/wardrobe";
+
+const ALL = "all";
+
+const labels = {
+    EN: {
+        title: "My Wardrobe",
+        subtitle: "Everything Marin-chan can pick from when she plans your outfits.",
+        signInPrompt: "Sign in to see your wardrobe.",
+        signIn: "Sign In",
+        allCategories: "All categories",
+        allSeasons: "All seasons",
+        empty: "Nothing here yet. Show Marin-chan your clothes in the chat and she will remember them!",
+        loadMore: "Load more",
+        loading: "Loading...",
+        remove: "Remove",
+        confirmRemove: (name: string) => `Remove "${name}" from your wardrobe?`,
+        categories: {
+            tops: "Tops", outerwear: "Outerwear", bottoms: "Bottoms",
+            dresses: "Dresses", shoes: "Shoes", accessories: "Accessories",
+        },
+        seasons: { spring: "Spring", summer: "Summer", autumn: "Autumn", winter: "Winter" },
+    },
+    JP: {
+        title: "マイクローゼット",
+        subtitle: "まりんちゃんがコーデを考えるときに使うアイテムたち。",
+        signInPrompt: "ログインするとクローゼットが見られるよ。",
+        signIn: "ログイン",
+        allCategories: "すべてのカテゴリー",
+        allSeasons: "すべての季節",
+        empty: "まだ何もないよ。チャットで服を見せてくれたら、まりんちゃんが覚えておくね！",
+        loadMore: "もっと見る",
+        loading: "読み込み中…",
+        remove: "削除",
+        confirmRemove: (name: string) => `「${name}」をクローゼットから削除しますか？`,
+        categories: {
+            tops: "トップス", outerwear: "アウター", bottoms: "ボトムス",
+            dresses: "ワンピース", shoes: "シューズ", accessories: "小物",
+        },
+        seasons: { spring: "春", summer: "夏", autumn: "秋", winter: "冬" },
+    },
+} satisfies Record<Language, unknown>;
+
+// Colors are stored as names or #rrggbb; unknown names get no swatch color
+function swatch(color: string): { hex?: string; label: string; labelJa: string } {
+    if (/^#[0-9a-f]{6}$/i.test(color)) {
+        return { hex: color, label: color, labelJa: color };
+    }
+    const named = findNamedColor(color);
+    return { hex: named?.hex, label: color, labelJa: named?.nameJa ?? color };
+}
+
+function formatPrice(item: WardrobeItem, lang: Language): string | null {
+    if (item.purchasePrice === undefined) {
+        return null;
+    }
+    const locale = lang === "JP" ? "ja-JP" : "en-US";
+    return item.currency
+        ? new Intl.NumberFormat(locale, { style: "currency", currency: item.currency }).format(item.purchasePrice)
+        : new Intl.NumberFormat(locale).format(item.purchasePrice);
+}
+
+function WardrobeCard({ item, lang, onRemove }: {
+    item: WardrobeItem;
+    lang: Language;
+    onRemove: () => void;
+}): React.JSX.Element {
+    const text = labels[lang];
+    const swatches = item.colors.map(swatch);
+    const price = formatPrice(item, lang);
+
+    return (
+        <Card className="overflow-hidden py-0 gap-0">
+            {item.imageUrl ? (
+                <img src={item.imageUrl} alt={item.name} className="aspect-square w-full object-cover" loading="lazy" />
+            ) : (
+                <div
+                    className="aspect-square w-full bg-muted"
+                    style={swatches[0]?.hex ? { backgroundColor: swatches[0].hex } : undefined}
+                />
+            )}
+            <CardContent className="grid gap-2 p-4">
+                <div className="flex items-start justify-between gap-2">
+                    <h2 className="font-medium leading-tight">{item.name}</h2>
+                    <button
+                        type="button"
+                        onClick={onRemove}
+                        aria-label={text.remove}
+                        className="text-foreground/50 hover:text-destructive transition-colors"
+                    >
+                        <Trash2 className="size-4" />
+                    </button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                    <Badge>{text.categories[item.category]}</Badge>
+                    {item.seasons.map((season) => (
+                        <Badge key={season} variant="outline">{text.seasons[season]}</Badge>
+                    ))}
+                </div>
+                {swatches.length > 0 && (
+                    <div className="flex gap-1">
+                        {swatches.map((color, index) => (
+                            <span
+                                key={index}
+                                title={lang === "JP" ? color.labelJa : color.label}
+                                className="size-4 rounded-full border border-foreground/20 bg-muted"
+                                style={color.hex ? { backgroundColor: color.hex } : undefined}
+                            />
+                        ))}
+                    </div>
+                )}
+                {(price || item.purchaseDate) && (
+                    <p className="text-sm text-foreground/60">
+                        {[price, item.purchaseDate].filter(Boolean).join(" · ")}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+/**
+ * Wardrobe page route (/wardrobe)
+ *
+ * Lists the signed-in user's saved clothes in a grid, filterable by category and season.
+ */
+export default function WardrobePage(): React.JSX.Element {
+    const { currentLang } = useLanguage();
+    const { token } = useAuthStore();
+    const { items, nextCursor, isLoading, error, load, loadMore, removeItem, reset } = useWardrobeStore();
+    const [category, setCategory] = useState<WardrobeCategory | typeof ALL>(ALL);
+    const [season, setSeason] = useState<Season | typeof ALL>(ALL);
+    const [signInOpen, setSignInOpen] = useState(false);
+
+    const text = labels[currentLang];
+
+    // Reload whenever the user or the filters change; signing out clears the list
+    useEffect(() => {
+        if (!token) {
+            reset();
+            return;
+        }
+        load(token, {
+            category: category === ALL ? undefined : category,
+            season: season === ALL ? undefined : season,
+        });
+    }, [token, category, season, load, reset]);
+
+    const handleRemove = (item: WardrobeItem) => {
+        if (token && window.confirm(text.confirmRemove(item.name))) {
+            removeItem(token, item.id);
+        }
+    };
+
+    return (
+        <main className="relative w-full min-h-screen bg-background">
+            <AnimatedBackground />
+
+            <div className="relative z-30 w-full flex flex-col items-center">
+                <Navbar />
+                <section className="w-full max-w-6xl px-6 sm:px-8 lg:px-12 pb-12 grid gap-6">
+                    <header className="grid gap-1">
+                        <h1 className="text-3xl font-bold text-foreground">{text.title}</h1>
+                        <p className="text-foreground/70">{text.subtitle}</p>
+                    </header>
+
+                    {!token ? (
+                        <div className="grid justify-items-start gap-3">
+                            <p className="text-foreground/80">{text.signInPrompt}</p>
+                            <Button onClick={() => setSignInOpen(true)}>{text.signIn}</Button>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap gap-3">
+                                <Select value={category} onValueChange={(value) => setCategory(value as WardrobeCategory | typeof ALL)}>
+                                    <SelectTrigger className="w-48">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL}>{text.allCategories}</SelectItem>
+                                        {WARDROBE_CATEGORIES.map((value) => (
+                                            <SelectItem key={value} value={value}>{text.categories[value]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Select value={season} onValueChange={(value) => setSeason(value as Season | typeof ALL)}>
+                                    <SelectTrigger className="w-40">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL}>{text.allSeasons}</SelectItem>
+                                        {SEASONS.map((value) => (
+                                            <SelectItem key={value} value={value}>{text.seasons[value]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {error && (
+                                <p role="alert" className="text-sm text-destructive">{error}</p>
+                            )}
+
+                            {items.length === 0 && !isLoading && !error ? (
+                                <p className="text-foreground/70">{text.empty}</p>
+                            ) : (
+                                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                                    {items.map((item) => (
+                                        <WardrobeCard
+                                            key={item.id}
+                                            item={item}
+                                            lang={currentLang}
+                                            onRemove={() => handleRemove(item)}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+
+                            {(nextCursor || isLoading) && (
+                                <Button
+                                    variant="outline"
+                                    className="justify-self-center"
+                                    disabled={isLoading}
+                                    onClick={() => loadMore(token)}
+                                >
+                                    {isLoading ? text.loading : text.loadMore}
+                                </Button>
+                            )}
+                        </>
+                    )}
+                </section>
+            </div>
+
+            <SignInDialog open={signInOpen} onOpenChange={setSignInOpen} />
+        </main>
+    );
+}
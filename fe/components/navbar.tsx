@@ -3,13 +3,18 @@ import { useEffect, useState } from "react"
 import Link from "next/link"
 import { ThemeToggleEnhanced } from "./theme-toggle-enhanced"
 import LanguageSelector from "./language-selector"
+import SignInDialog from "./sign-in-dialog"
+import { useAuthStore } from "@/hooks/use-auth-store"
 
 export default function Navbar() {
   const [mounted, setMounted] = useState(false)
+  const [signInOpen, setSignInOpen] = useState(false)
+  const { user, signOut, restoreSession } = useAuthStore()
 
   useEffect(() => {
     setMounted(true)
-  }, [])
+    restoreSession()
+  }, [restoreSession])
 
   return (
     <nav className="relative z-30 w-full flex justify-center">
@@ -24,6 +29,16 @@ export default function Navbar() {
 
         {/* Center Links - Middle Column */}
         <div className="hidden md:flex items-center justify-center gap-8 ml-16">
+          {user && (
+            <Link href="/wardrobe" className="text-foreground/80 hover:text-foreground transition-colors text-lg">
+              Wardrobe
+            </Link>
+          )}
+          {user && (
+            <Link href="/settings" className="text-foreground/80 hover:text-foreground transition-colors text-lg">
+              Settings
+            </Link>
+          )}
           <a href="https://github.com/GeneCodeSavvy/KawaiiKlarity" target="_blank" rel="noopener" className="text-foreground/80 hover:text-foreground transition-colors text-lg">
             Github
           </a>
@@ -34,15 +49,31 @@ export default function Navbar() {
 
         {/* Right: Book Demo Button + Language Selector + Theme Toggle - Right Column */}
         <div className="flex items-center justify-end gap-3 sm:gap-4 h-10">
-          <button className="px-4 sm:px-6 py-1 border border-primary text-primary-foreground rounded-lg font-medium bg-primary hover:opacity-90 text-lg flex items-center">
-            Sign In
-          </button>
+          {user ? (
+            <>
+              <span className="hidden sm:inline text-foreground/80 text-lg">{user.username}</span>
+              <button
+                onClick={() => signOut()}
+                className="px-4 sm:px-6 py-1 border border-primary text-foreground rounded-lg font-medium hover:bg-primary/10 text-lg flex items-center"
+              >
+                Sign Out
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setSignInOpen(true)}
+              className="px-4 sm:px-6 py-1 border border-primary text-primary-foreground rounded-lg font-medium bg-primary hover:opacity-90 text-lg flex items-center"
+            >
+              Sign In
+            </button>
+          )}
           <div className="h-full flex items-center">
             <LanguageSelector />
           </div>
            {mounted && <ThemeToggleEnhanced variant="circle" start="center" />}
         </div>
       </div>
+      <SignInDialog open={signInOpen} onOpenChange={setSignInOpen} />
     </nav>
   )
 }
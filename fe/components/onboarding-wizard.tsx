@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { PREFERENCE_STEPS, PreferenceFields, preferenceLabels } from "@/components/preference-fields"
+import { useAuthStore } from "@/hooks/use-auth-store"
+import { useLanguage } from "@/hooks/use-language"
+import { usePreferencesStore } from "@/hooks/use-preferences-store"
+import type { UserPreferences } from "@/lib/api"
+
+const labels = {
+  EN: {
+    back: "Back",
+    next: "Next",
+    finish: "Finish",
+    skip: "Skip for now",
+    saving: "Saving...",
+    step: (current: number, total: number) => `Step ${current} of ${total}`,
+  },
+  JP: {
+    back: "戻る",
+    next: "次へ",
+    finish: "完了",
+    skip: "あとで",
+    saving: "保存中…",
+    step: (current: number, total: number) => `${current} / ${total}`,
+  },
+}
+
+/**
+ * First-run questionnaire shown to signed-in users who have neither finished nor skipped it.
+ * Answers are saved to /api/preferences, where chat and outfit recommendations pick them up;
+ * they can be changed later on the settings page.
+ */
+export default function OnboardingWizard() {
+  const { currentLang } = useLanguage()
+  const { token } = useAuthStore()
+  const { preferences, onboarding, isSaving, error, load, save, reset } = usePreferencesStore()
+  const [step, setStep] = useState(0)
+  const [draft, setDraft] = useState<UserPreferences>({})
+
+  const text = labels[currentLang]
+  const current = PREFERENCE_STEPS[step]!
+  const isLast = step === PREFERENCE_STEPS.length - 1
+
+  // Fetch the onboarding status for whoever is signed in; signing out forgets it
+  useEffect(() => {
+    if (!token) {
+      reset()
+      return
+    }
+    load(token)
+  }, [token, load, reset])
+
+  // Start from anything already saved, e.g. answers given on another device
+  useEffect(() => {
+    setDraft(preferences)
+  }, [preferences])
+
+  const finish = async (status: "completed" | "skipped") => {
+    if (!token) return
+    try {
+      await save(token, status === "completed" ? draft : preferences, status)
+    } catch {
+      // The store keeps the error message for display
+    }
+  }
+
+  return (
+    <Dialog open={Boolean(token) && onboarding === "pending"} onOpenChange={(open) => !open && finish("skipped")}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <p className="text-xs text-foreground/60">{text.step(step + 1, PREFERENCE_STEPS.length)}</p>
+          <Progress value={((step + 1) / PREFERENCE_STEPS.length) * 100} />
+          <DialogTitle>{preferenceLabels[currentLang].steps[current].title}</DialogTitle>
+          <DialogDescription>{preferenceLabels[currentLang].steps[current].description}</DialogDescription>
+        </DialogHeader>
+
+        <PreferenceFields step={current} value={draft} onChange={setDraft} lang={currentLang} />
+
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <button
+            type="button"
+            onClick={() => finish("skipped")}
+            disabled={isSaving}
+            className="text-sm text-foreground/70 hover:text-foreground transition-colors"
+          >
+            {text.skip}
+          </button>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={step === 0 || isSaving} onClick={() => setStep(step - 1)}>
+              {text.back}
+            </Button>
+            <Button disabled={isSaving} onClick={() => (isLast ? finish("completed") : setStep(step + 1))}>
+              {isSaving ? text.saving : isLast ? text.finish : text.next}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,218 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Language } from "@/contexts/language-context"
+import type { UserPreferences } from "@/lib/api"
+import { cn } from "@/lib/utils"
+import { NAMED_COLORS } from "@shared/colors"
+import { OCCASIONS, type Occasion } from "@shared/outfits"
+
+// Form sections for UserPreferences, shared by the onboarding wizard (one step at a time)
+// and the settings page (all at once)
+
+export const PREFERENCE_STEPS = ["styles", "colors", "sizes", "budget", "occasions"] as const
+export type PreferenceStep = (typeof PREFERENCE_STEPS)[number]
+
+const STYLES = ["kawaii", "casual", "elegant", "street", "sporty", "minimal", "classic", "romantic"] as const
+const CURRENCIES = ["JPY", "USD", "EUR"] as const
+
+export const preferenceLabels = {
+  EN: {
+    steps: {
+      styles: { title: "Your style", description: "Which styles do you love? Pick as many as you like." },
+      colors: { title: "Favorite colors", description: "Marin-chan will try to work these into your outfits." },
+      sizes: { title: "Your sizes", description: "So suggestions fit you. Leave blank if you'd rather not say." },
+      budget: { title: "Budget", description: "How much do you usually spend on one item?" },
+      occasions: { title: "Occasions", description: "What do you usually dress for?" },
+    },
+    styles: {
+      kawaii: "Kawaii", casual: "Casual", elegant: "Elegant", street: "Street",
+      sporty: "Sporty", minimal: "Minimal", classic: "Classic", romantic: "Romantic",
+    },
+    occasions: {
+      casual: "Everyday", work: "Work", date: "Dates", party: "Parties",
+      formal: "Formal events", sport: "Sport", outdoor: "Outdoors",
+    } satisfies Record<Occasion, string>,
+    sizes: { tops: "Tops", bottoms: "Bottoms", shoes: "Shoes" },
+    sizePlaceholders: { tops: "e.g. M", bottoms: "e.g. 27", shoes: "e.g. 24cm" },
+    budgetMin: "From",
+    budgetMax: "Up to",
+    currency: "Currency",
+  },
+  JP: {
+    steps: {
+      styles: { title: "あなたのスタイル", description: "好きなスタイルはどれ？いくつ選んでもOKだよ。" },
+      colors: { title: "好きな色", description: "まりんちゃんがコーデに取り入れるね。" },
+      sizes: { title: "サイズ", description: "ぴったりの提案のために。言いたくなければ空欄でOK。" },
+      budget: { title: "予算", description: "アイテム1点にだいたいいくらくらい使う？" },
+      occasions: { title: "シーン", description: "ふだんどんなシーンのために服を選ぶ？" },
+    },
+    styles: {
+      kawaii: "かわいい", casual: "カジュアル", elegant: "エレガント", street: "ストリート",
+      sporty: "スポーティ", minimal: "ミニマル", classic: "クラシック", romantic: "ロマンティック",
+    },
+    occasions: {
+      casual: "普段着", work: "仕事", date: "デート", party: "パーティー",
+      formal: "フォーマル", sport: "スポーツ", outdoor: "アウトドア",
+    } satisfies Record<Occasion, string>,
+    sizes: { tops: "トップス", bottoms: "ボトムス", shoes: "シューズ" },
+    sizePlaceholders: { tops: "例: M", bottoms: "例: 27", shoes: "例: 24cm" },
+    budgetMin: "最低",
+    budgetMax: "最高",
+    currency: "通貨",
+  },
+} satisfies Record<Language, unknown>
+
+// Add or remove a value; an emptied list becomes undefined so it is left out of the request
+function toggle(values: string[] | undefined, value: string): string[] | undefined {
+  const current = values ?? []
+  const next = current.includes(value) ? current.filter((item) => item !== value) : [...current, value]
+  return next.length > 0 ? next : undefined
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value)
+  return value.trim() !== "" && Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
+function Chip({ selected, onClick, children, swatch }: {
+  selected: boolean
+  onClick: () => void
+  children: ReactNode
+  swatch?: string
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      onClick={onClick}
+      className={cn(
+        "inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm transition-colors",
+        selected
+          ? "border-primary bg-primary text-primary-foreground"
+          : "border-foreground/20 text-foreground/80 hover:border-primary/60"
+      )}
+    >
+      {swatch && <span className="size-3 rounded-full border border-foreground/20" style={{ backgroundColor: swatch }} />}
+      {children}
+    </button>
+  )
+}
+
+interface PreferenceFieldsProps {
+  step: PreferenceStep
+  value: UserPreferences
+  onChange: (value: UserPreferences) => void
+  lang: Language
+}
+
+export function PreferenceFields({ step, value, onChange, lang }: PreferenceFieldsProps) {
+  const text = preferenceLabels[lang]
+
+  switch (step) {
+    case "styles":
+      return (
+        <div className="flex flex-wrap gap-2">
+          {STYLES.map((style) => (
+            <Chip
+              key={style}
+              selected={value.preferredStyle?.includes(style) ?? false}
+              onClick={() => onChange({ ...value, preferredStyle: toggle(value.preferredStyle, style) })}
+            >
+              {text.styles[style]}
+            </Chip>
+          ))}
+        </div>
+      )
+
+    case "colors":
+      return (
+        <div className="flex flex-wrap gap-2">
+          {NAMED_COLORS.map((color) => (
+            <Chip
+              key={color.name}
+              swatch={color.hex}
+              selected={value.favoriteColors?.includes(color.name) ?? false}
+              onClick={() => onChange({ ...value, favoriteColors: toggle(value.favoriteColors, color.name) })}
+            >
+              {lang === "JP" ? color.nameJa : color.name}
+            </Chip>
+          ))}
+        </div>
+      )
+
+    case "sizes":
+      return (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {(["tops", "bottoms", "shoes"] as const).map((part) => (
+            <label key={part} className="grid gap-1.5 text-sm font-medium">
+              {text.sizes[part]}
+              <Input
+                value={value.sizeInfo?.[part] ?? ""}
+                placeholder={text.sizePlaceholders[part]}
+                maxLength={32}
+                onChange={(event) => onChange({
+                  ...value,
+                  sizeInfo: { ...value.sizeInfo, [part]: event.target.value.trim() ? event.target.value : undefined },
+                })}
+              />
+            </label>
+          ))}
+        </div>
+      )
+
+    case "budget":
+      return (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {(["min", "max"] as const).map((bound) => (
+            <label key={bound} className="grid gap-1.5 text-sm font-medium">
+              {bound === "min" ? text.budgetMin : text.budgetMax}
+              <Input
+                type="number"
+                min={0}
+                inputMode="numeric"
+                value={value.budget?.[bound] ?? ""}
+                onChange={(event) => onChange({
+                  ...value,
+                  budget: { ...value.budget, [bound]: parseAmount(event.target.value) },
+                })}
+              />
+            </label>
+          ))}
+          <label className="grid gap-1.5 text-sm font-medium">
+            {text.currency}
+            <Select
+              value={value.budget?.currency ?? (lang === "JP" ? "JPY" : "USD")}
+              onValueChange={(currency) => onChange({ ...value, budget: { ...value.budget, currency } })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+        </div>
+      )
+
+    case "occasions":
+      return (
+        <div className="flex flex-wrap gap-2">
+          {OCCASIONS.map((occasion) => (
+            <Chip
+              key={occasion}
+              selected={value.occasions?.includes(occasion) ?? false}
+              onClick={() => onChange({ ...value, occasions: toggle(value.occasions, occasion) })}
+            >
+              {text.occasions[occasion]}
+            </Chip>
+          ))}
+        </div>
+      )
+  }
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { FormEvent, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { useAuthStore } from "@/hooks/use-auth-store"
+import { useLanguage } from "@/hooks/use-language"
+
+type Mode = "signIn" | "signUp"
+
+const labels = {
+  EN: {
+    signIn: "Sign In",
+    signUp: "Create Account",
+    signInDescription: "Welcome back! Sign in to chat with Marin-chan.",
+    signUpDescription: "Create an account so Marin-chan can remember you.",
+    username: "Username",
+    password: "Password",
+    switchToSignUp: "New here? Create an account",
+    switchToSignIn: "Already have an account? Sign in",
+    working: "Please wait...",
+  },
+  JP: {
+    signIn: "ログイン",
+    signUp: "アカウント作成",
+    signInDescription: "おかえりなさい！ログインしてまりんちゃんとお話ししよう。",
+    signUpDescription: "アカウントを作ると、まりんちゃんがあなたを覚えてくれるよ。",
+    username: "ユーザー名",
+    password: "パスワード",
+    switchToSignUp: "はじめての方はこちら",
+    switchToSignIn: "アカウントをお持ちの方はこちら",
+    working: "お待ちください…",
+  },
+}
+
+interface SignInDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function SignInDialog({ open, onOpenChange }: SignInDialogProps) {
+  const { currentLang } = useLanguage()
+  const { signIn, signUp, isLoading, error } = useAuthStore()
+  const [mode, setMode] = useState<Mode>("signIn")
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+
+  const text = labels[currentLang]
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    try {
+      await (mode === "signIn" ? signIn : signUp)(username.trim(), password)
+      setPassword("")
+      onOpenChange(false)
+    } catch {
+      // The store keeps the error message for display
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{mode === "signIn" ? text.signIn : text.signUp}</DialogTitle>
+            <DialogDescription>
+              {mode === "signIn" ? text.signInDescription : text.signUpDescription}
+            </DialogDescription>
+          </DialogHeader>
+
+          <label className="grid gap-1.5 text-sm font-medium">
+            {text.username}
+            <Input
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+              autoComplete="username"
+              minLength={3}
+              maxLength={32}
+              required
+            />
+          </label>
+
+          <label className="grid gap-1.5 text-sm font-medium">
+            {text.password}
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+              minLength={mode === "signUp" ? 8 : undefined}
+              required
+            />
+          </label>
+
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter className="flex-col gap-2 sm:flex-col">
+            <Button type="submit" disabled={isLoading} className="w-full">
+              {isLoading ? text.working : mode === "signIn" ? text.signIn : text.signUp}
+            </Button>
+            <button
+              type="button"
+              onClick={() => setMode(mode === "signIn" ? "signUp" : "signIn")}
+              className="text-sm text-foreground/70 hover:text-foreground transition-colors"
+            >
+              {mode === "signIn" ? text.switchToSignUp : text.switchToSignIn}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { create } from 'zustand';
+import {
+    AuthResponse,
+    AuthUser,
+    fetchCurrentUser,
+    signIn as apiSignIn,
+    signOut as apiSignOut,
+    signUp as apiSignUp
+} from '@/lib/api';
+
+// Bearer token kept in localStorage so the sign-in survives reloads
+const AUTH_STORAGE_KEY = 'auth-session';
+
+interface AuthState {
+    user: AuthUser | null;
+    token: string | null;
+    isLoading: boolean;
+    error: string | null;
+    signIn: (username: string, password: string) => Promise<void>;
+    signUp: (username: string, password: string) => Promise<void>;
+    signOut: () => Promise<void>;
+    restoreSession: () => Promise<void>;
+}
+
+export const useAuthStore = create<AuthState>()((set, get) => {
+    const authenticate = async (request: () => Promise<AuthResponse>) => {
+        set({ isLoading: true, error: null });
+        try {
+            const { user, token, expiresAt } = await request();
+            localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ token, expiresAt }));
+            set({ user, token, isLoading: false });
+        } catch (error) {
+            set({
+                isLoading: false,
+                error: error instanceof Error ? error.message : 'Authentication failed'
+            });
+            throw error;
+        }
+    };
+
+    return {
+        user: null,
+        token: null,
+        isLoading: false,
+        error: null,
+
+        signIn: (username: string, password: string) =>
+            authenticate(() => apiSignIn(username, password)),
+
+        signUp: (username: string, password: string) =>
+            authenticate(() => apiSignUp(username, password)),
+
+        signOut: async () => {
+            localStorage.removeItem(AUTH_STORAGE_KEY);
+            set({ user: null, token: null, error: null });
+            try {
+                await apiSignOut();
+            } catch (error) {
+                console.error('Failed to sign out:', error);
+            }
+        },
+
+        restoreSession: async () => {
+            if (get().user) return;
+
+            try {
+                const saved = localStorage.getItem(AUTH_STORAGE_KEY);
+                if (!saved) return;
+
+                const { token, expiresAt } = JSON.parse(saved);
+                if (!token || Date.parse(expiresAt) <= Date.now()) {
+                    localStorage.removeItem(AUTH_STORAGE_KEY);
+                    return;
+                }
+
+                set({ isLoading: true });
+                const user = await fetchCurrentUser(token);
+                set({ user, token, isLoading: false });
+            } catch (error) {
+                console.error('Failed to restore sign-in:', error);
+                localStorage.removeItem(AUTH_STORAGE_KEY);
+                set({ user: null, token: null, isLoading: false });
+            }
+        }
+    };
+});
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+    deleteChatSession,
+    fetchChatSession,
+    fetchChatSessions,
+    saveChatSession
+} from '@/lib/api';
+import { useAuthStore } from '@/hooks/use-auth-store';
+import { ChatSession, ChatSessionSummary, UseChatHistoryReturn } from '@/types/chat';
+
+// Remembers the active session across reloads; the session itself lives on the server.
+// Sessions belong to the signed-in user, so signed out they are kept in this tab only.
+const CURRENT_SESSION_KEY = 'chat-session-id';
+
+function newSession(): ChatSession {
+    const now = new Date();
+    return {
+        id: crypto.randomUUID(),
+        messages: [],
+        createdAt: now,
+        lastActivity: now,
+        context: {}
+    };
+}
+
+export function useChatHistory(): UseChatHistoryReturn {
+    const token = useAuthStore((state) => state.token);
+    const [sessions, setSessions] = useState<ChatSession[]>([]);
+    const [summaries, setSummaries] = useState<ChatSessionSummary[]>([]);
+    const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
+    const [pending, setPending] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    // Track overlapping requests so isLoading stays true until all of them settle
+    const track = useCallback(async <T,>(operation: () => Promise<T>): Promise<T> => {
+        setPending((count) => count + 1);
+        try {
+            const result = await operation();
+            setError(null);
+            return result;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Chat history request failed');
+            throw err;
+        } finally {
+            setPending((count) => count - 1);
+        }
+    }, []);
+
+    const rememberSession = useCallback((session: ChatSession) => {
+        setSessions((previous) => [session, ...previous.filter((s) => s.id !== session.id)]);
+    }, []);
+
+    const refreshSessions = useCallback(async () => {
+        if (!token) {
+            setSummaries([]);
+            return;
+        }
+        const { sessions: list } = await track(() => fetchChatSessions(token));
+        setSummaries(list);
+    }, [track, token]);
+
+    const loadSession = useCallback(async (sessionId: string) => {
+        if (!token) {
+            throw new Error('Sign in to load saved chats');
+        }
+        const session = await track(() => fetchChatSession(token, sessionId));
+        rememberSession(session);
+        setCurrentSession(session);
+        localStorage.setItem(CURRENT_SESSION_KEY, session.id);
+        return session;
+    }, [track, rememberSession, token]);
+
+    const saveSession = useCallback(async (session: ChatSession) => {
+        if (!token) {
+            rememberSession(session);
+            setCurrentSession((current) => (current?.id === session.id ? session : current));
+            return;
+        }
+        const saved = await track(() => saveChatSession(token, session));
+        rememberSession(saved);
+        setCurrentSession((current) => (current?.id === saved.id ? saved : current));
+        setSummaries((previous) => [
+            {
+                id: saved.id,
+                createdAt: saved.createdAt,
+                lastActivity: saved.lastActivity,
+                messageCount: saved.messages.length,
+                preview: saved.messages.at(-1)?.content.slice(0, 120)
+            },
+            ...previous.filter((summary) => summary.id !== saved.id)
+        ]);
+    }, [track, rememberSession, token]);
+
+    const deleteSession = useCallback(async (sessionId: string) => {
+        if (token) {
+            await track(() => deleteChatSession(token, sessionId));
+        }
+        setSessions((previous) => previous.filter((session) => session.id !== sessionId));
+        setSummaries((previous) => previous.filter((summary) => summary.id !== sessionId));
+        setCurrentSession((current) => (current?.id === sessionId ? null : current));
+        if (localStorage.getItem(CURRENT_SESSION_KEY) === sessionId) {
+            localStorage.removeItem(CURRENT_SESSION_KEY);
+        }
+    }, [track, token]);
+
+    // New sessions are local until the first save
+    const createNewSession = useCallback(() => {
+        const session = newSession();
+        setCurrentSession(session);
+        localStorage.setItem(CURRENT_SESSION_KEY, session.id);
+        return session;
+    }, []);
+
+    // Restore the last active session after a reload, once the sign-in has been restored
+    useEffect(() => {
+        refreshSessions().catch(() => undefined);
+
+        const savedId = localStorage.getItem(CURRENT_SESSION_KEY);
+        if (token && savedId) {
+            loadSession(savedId).catch(() => {
+                localStorage.removeItem(CURRENT_SESSION_KEY);
+            });
+        }
+    }, [refreshSessions, loadSession, token]);
+
+    return {
+        sessions,
+        summaries,
+        currentSession,
+        saveSession,
+        loadSession,
+        deleteSession,
+        createNewSession,
+        refreshSessions,
+        isLoading: pending > 0,
+        error
+    };
+}
@@ -8,6 +8,7 @@ interface ChatState {
     addMessage: (message: Message) => void;
     updateMessage: (id: string, updates: Partial<Message>) => void;
     deleteMessage: (id: string) => void;
+    replaceMessages: (messages: Message[]) => void;
     clearMessages: () => void;
     loadMessagesFromStorage: () => void;
     saveMessagesToStorage: () => void;
@@ -42,6 +43,12 @@ export const useChatStore = create<ChatState>()((set, get) => ({
         setTimeout(() => get().saveMessagesToStorage(), 0);
     },
 
+    replaceMessages: (messages: Message[]) => {
+        set({ messages });
+        // Auto-save to sessionStorage
+        setTimeout(() => get().saveMessagesToStorage(), 0);
+    },
+
     clearMessages: () => {
         set({ messages: [] });
         sessionStorage.removeItem('chat-messages');
@@ -0,0 +1,66 @@
+"use client";
+
+import { create } from 'zustand';
+import { fetchPreferences, savePreferences, OnboardingStatus, UserPreferences } from '@/lib/api';
+
+interface PreferencesState {
+    preferences: UserPreferences;
+    onboarding: OnboardingStatus | null;     // null until loaded
+    isLoading: boolean;
+    isSaving: boolean;
+    error: string | null;
+    load: (token: string) => Promise<void>;
+    save: (token: string, preferences: UserPreferences, onboarding?: 'completed' | 'skipped') => Promise<void>;
+    reset: () => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()((set) => {
+    // A response for a user who has since signed out (or in as someone else) is dropped
+    let latestRequest = 0;
+
+    return {
+        preferences: {},
+        onboarding: null,
+        isLoading: false,
+        isSaving: false,
+        error: null,
+
+        load: async (token: string) => {
+            const id = ++latestRequest;
+            set({ isLoading: true, error: null });
+            try {
+                const { preferences, onboarding } = await fetchPreferences(token);
+                if (id !== latestRequest) return;
+                set({ preferences, onboarding, isLoading: false });
+            } catch (error) {
+                if (id !== latestRequest) return;
+                set({
+                    isLoading: false,
+                    error: error instanceof Error ? error.message : 'Failed to load preferences'
+                });
+            }
+        },
+
+        save: async (token: string, preferences: UserPreferences, onboarding?: 'completed' | 'skipped') => {
+            const id = ++latestRequest;
+            set({ isSaving: true, error: null });
+            try {
+                const saved = await savePreferences(token, { preferences, onboarding });
+                if (id !== latestRequest) return;
+                set({ preferences: saved.preferences, onboarding: saved.onboarding, isSaving: false });
+            } catch (error) {
+                if (id !== latestRequest) return;
+                set({
+                    isSaving: false,
+                    error: error instanceof Error ? error.message : 'Failed to save preferences'
+                });
+                throw error;
+            }
+        },
+
+        reset: () => {
+            latestRequest++;
+            set({ preferences: {}, onboarding: null, isLoading: false, isSaving: false, error: null });
+        }
+    };
+});
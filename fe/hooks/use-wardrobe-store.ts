@@ -0,0 +1,74 @@
+"use client";
+
+import { create } from 'zustand';
+import { deleteWardrobeItem, fetchWardrobe, WardrobeFilters, WardrobeItem } from '@/lib/api';
+
+interface WardrobeState {
+    items: WardrobeItem[];
+    filters: WardrobeFilters;
+    nextCursor: string | null;
+    isLoading: boolean;
+    error: string | null;
+    load: (token: string, filters?: WardrobeFilters) => Promise<void>;
+    loadMore: (token: string) => Promise<void>;
+    removeItem: (token: string, id: string) => Promise<void>;
+    reset: () => void;
+}
+
+export const useWardrobeStore = create<WardrobeState>()((set, get) => {
+    // Responses to superseded requests (e.g. the filters changed meanwhile) are dropped
+    let latestRequest = 0;
+
+    const request = async (token: string, filters: WardrobeFilters, cursor?: string) => {
+        const id = ++latestRequest;
+        set({ isLoading: true, error: null });
+        try {
+            const page = await fetchWardrobe(token, filters, cursor);
+            if (id !== latestRequest) return;
+            set((state) => ({
+                items: cursor ? [...state.items, ...page.items] : page.items,
+                nextCursor: page.nextCursor,
+                isLoading: false
+            }));
+        } catch (error) {
+            if (id !== latestRequest) return;
+            set({
+                isLoading: false,
+                error: error instanceof Error ? error.message : 'Failed to load wardrobe'
+            });
+        }
+    };
+
+    return {
+        items: [],
+        filters: {},
+        nextCursor: null,
+        isLoading: false,
+        error: null,
+
+        load: (token: string, filters: WardrobeFilters = get().filters) => {
+            set({ filters });
+            return request(token, filters);
+        },
+
+        loadMore: async (token: string) => {
+            const { nextCursor, filters, isLoading } = get();
+            if (!nextCursor || isLoading) return;
+            await request(token, filters, nextCursor);
+        },
+
+        removeItem: async (token: string, id: string) => {
+            try {
+                await deleteWardrobeItem(token, id);
+                set((state) => ({ items: state.items.filter((item) => item.id !== id) }));
+            } catch (error) {
+                set({ error: error instanceof Error ? error.message : 'Failed to remove item' });
+            }
+        },
+
+        reset: () => {
+            latestRequest++;
+            set({ items: [], filters: {}, nextCursor: null, isLoading: false, error: null });
+        }
+    };
+});
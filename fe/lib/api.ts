@@ -2,12 +2,18 @@
  * API client functions for KawaiiKlarity backend integration
  * 
  * This file provides typed API functions for:
+ * - Text chat replies, validated against the schemas shared with the backend
  * - Voice message upload and speech-to-text processing
  * - Image upload and clothing recognition (CLIP model)
+ * - Chat session persistence (save/load/delete sessions)
+ * - Account sign-up/sign-in and authenticated WebSocket URLs
+ * - The signed-in user's wardrobe (list/add/edit/remove clothes)
+ * - Fashion preferences collected by onboarding (get/save)
+ * - Outfit recommendations from the wardrobe, weather and preferences
+ * - Color harmony scores explaining why clothes go together
  * - Error handling and retry logic for network failures
  * - Progress tracking for large file uploads
  * - Request cancellation support
- * - Authentication handling (if required in future)
  * 
  * Usage:
  * - Import specific functions from this module
@@ -16,58 +22,110 @@
  * - Progress callbacks available for upload functions
  */
 
-export interface VoiceUploadResponse {
-  success: boolean;
-  transcription: string;
-  response: string;
-  error?: string;
-}
-
-export interface ImageUploadResponse {
-  success: boolean;
-  recognitionResults: Array<{
-    name: string;
-    confidence: number;
-    category: string;
-    color?: string;
-    style?: string;
-  }>;
-  response: string;
-  error?: string;
-}
-
-export interface WeatherResponse {
-  success: boolean;
-  data: {
-    temperature: number;
-    condition: string;
-    humidity: number;
-    windSpeed: number;
-    location: {
-      city: string;
-      country: string;
-    };
-  };
-  error?: string;
+import { getApiUrl } from '@/lib/utils';
+import {
+  MessageType,
+  type ChatContext,
+  type ChatSession,
+  type ChatSessionSummary,
+  type Message,
+  type MessageMetadata,
+  type MessageStatus,
+  type WeatherData
+} from '@/types/chat';
+import {
+  SENDER_ROLES,
+  chatRequestSchema,
+  chatResponseSchema,
+  type ChatRequestContext,
+  type ChatRequestInput,
+  type ChatResponse
+} from '@shared/chat';
+import type { ImageUploadResponse } from '@shared/clothing';
+import type {
+  ColorHarmony,
+  ColorScoreRequestInput,
+  RecommendationRequestInput,
+  RecommendationResponse,
+  RecommendedOutfit
+} from '@shared/outfits';
+import type {
+  OnboardingStatus,
+  PreferencesResponse,
+  PreferencesUpdateInput,
+  UserPreferences
+} from '@shared/preferences';
+import {
+  chatSessionSchema,
+  sessionListResponseSchema,
+  sessionMessagesResponseSchema,
+  type ChatSession as StoredSession,
+  type SessionMessage
+} from '@shared/sessions';
+import type { AudioInfo, VoiceUploadResponse } from '@shared/voice';
+import type {
+  NewWardrobeItemInput,
+  WardrobeFilters,
+  WardrobeItem,
+  WardrobeItemUpdate,
+  WardrobeListResponse
+} from '@shared/wardrobe';
+import type { WeatherReport, WeatherResponse } from '@shared/weather';
+
+export type { AudioInfo, ImageUploadResponse, VoiceUploadResponse, WeatherReport, WeatherResponse };
+export type { NewWardrobeItemInput, WardrobeFilters, WardrobeItem, WardrobeItemUpdate, WardrobeListResponse };
+export type { OnboardingStatus, PreferencesResponse, PreferencesUpdateInput, UserPreferences };
+export type { ColorHarmony, ColorScoreRequestInput, RecommendationRequestInput, RecommendationResponse, RecommendedOutfit };
+
+export interface VoiceUploadOptions {
+  token?: string;       // Required with sessionId: only the session's owner may use it
+  sessionId?: string;   // Lets Marin reply with the conversation so far in mind
+  messageId?: string;   // Echoed back to match the reply to its message
+  language?: string;    // Transcription language hint, e.g. 'ja'
+}
+
+export interface ChatSessionListResponse {
+  sessions: ChatSessionSummary[];
+  nextCursor: string | null;
+}
+
+export interface SessionMessagesResponse {
+  messages: Message[];
+  nextCursor: string | null;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  user: AuthUser;
+  token: string;
+  expiresAt: string;
 }
 
 export interface ProgressCallback {
   (progress: number): void;
 }
 
-// API base URL (to be configured based on environment)
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
-
 /**
- * Upload voice message and get transcription + AI response
+ * Upload voice message and get transcription + AI response.
+ * If only the reply fails, the promise still resolves with the transcription and `replyError` set.
  */
 export async function uploadVoiceMessage(
   audioBlob: Blob,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: VoiceUploadOptions = {}
 ): Promise<VoiceUploadResponse> {
   try {
     const formData = new FormData();
     formData.append('audio', audioBlob, 'voice-message.webm');
+    const { token, ...fields } = options;
+    for (const [key, value] of Object.entries(fields)) {
+      if (value) formData.append(key, value);
+    }
 
     const xhr = new XMLHttpRequest();
     
@@ -96,11 +154,18 @@ export async function uploadVoiceMessage(
             });
           }
         } else {
+          // Validation and transcription failures come back with the reason in `error`
+          let error = `Server error: ${xhr.status}`;
+          try {
+            error = JSON.parse(xhr.responseText).error ?? error;
+          } catch {
+            // Not a JSON error body
+          }
           reject({
             success: false,
             transcription: '',
             response: '',
-            error: `Server error: ${xhr.status}`
+            error
           });
         }
       });
@@ -114,7 +179,10 @@ export async function uploadVoiceMessage(
         });
       });
 
-      xhr.open('POST', `${API_BASE_URL}/voice/upload`);
+      xhr.open('POST', getApiUrl('/api/voice/upload'));
+      if (token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+      }
       xhr.send(formData);
     });
   } catch (error) {
@@ -165,11 +233,18 @@ export async function uploadImageMessage(
             });
           }
         } else {
+          // Validation and recognizer failures come back with the reason in `error`
+          let error = `Server error: ${xhr.status}`;
+          try {
+            error = JSON.parse(xhr.responseText).error ?? error;
+          } catch {
+            // Not a JSON error body
+          }
           reject({
             success: false,
             recognitionResults: [],
             response: '',
-            error: `Server error: ${xhr.status}`
+            error
           });
         }
       });
@@ -183,7 +258,7 @@ export async function uploadImageMessage(
         });
       });
 
-      xhr.open('POST', `${API_BASE_URL}/image/upload`);
+      xhr.open('POST', getApiUrl('/api/image/upload'));
       xhr.send(formData);
     });
   } catch (error) {
@@ -205,38 +280,459 @@ export async function fetchWeatherData(
 ): Promise<WeatherResponse> {
   try {
     const params = new URLSearchParams();
-    if (latitude && longitude) {
+    if (latitude !== undefined && longitude !== undefined) {
       params.append('lat', latitude.toString());
       params.append('lon', longitude.toString());
     }
 
-    const url = `${API_BASE_URL}/weather${params.toString() ? '?' + params.toString() : ''}`;
-    const response = await fetch(url);
+    const query = params.toString();
+    const response = await fetch(getApiUrl(`/api/weather${query ? '?' + query : ''}`));
+    const data = await response.json().catch(() => null);
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      throw new Error(data?.error ?? `HTTP error! status: ${response.status}`);
     }
 
-    const data = await response.json();
     return data;
   } catch (error) {
     return {
       success: false,
-      data: {
-        temperature: 20,
-        condition: 'unknown',
-        humidity: 50,
-        windSpeed: 0,
-        location: {
-          city: 'Unknown',
-          country: 'Unknown'
-        }
-      },
       error: error instanceof Error ? error.message : 'Failed to fetch weather data'
     };
   }
 }
 
+/**
+ * Convert a weather report into the chat context's WeatherData, with forecast dates as Dates
+ */
+export function toWeatherData(report: WeatherReport): WeatherData {
+  return {
+    temperature: report.temperature,
+    condition: report.condition,
+    humidity: report.humidity,
+    windSpeed: report.windSpeed,
+    forecast: report.forecast.map((entry) => ({ ...entry, date: new Date(entry.date) }))
+  };
+}
+
+// canPlayType codec strings for the server's codec names (AAC-LC for aac, format tag 1 for WAV PCM)
+const PLAYBACK_CODECS: Record<string, string> = {
+  aac: 'mp4a.40.2',
+  pcm: '1',
+  mp3: 'mp3',
+  opus: 'opus',
+  vorbis: 'vorbis',
+  flac: 'flac'
+};
+
+type AudioMetadata = Pick<MessageMetadata, 'audioDuration' | 'audioMimeType' | 'audioWaveform' | 'formatSupported'>;
+
+/**
+ * Voice message metadata from the server's reading of the uploaded file and its waveform peaks.
+ * `formatSupported` asks this browser whether it can play the container and codec, and is left
+ * unset during SSR.
+ */
+export function toAudioMetadata(audio: AudioInfo, waveform?: number[]): AudioMetadata {
+  const metadata: AudioMetadata = {
+    audioMimeType: audio.mimeType
+  };
+  if (audio.duration !== null) {
+    metadata.audioDuration = audio.duration;
+  }
+  if (waveform) {
+    metadata.audioWaveform = waveform;
+  }
+  if (typeof document !== 'undefined') {
+    const codec = PLAYBACK_CODECS[audio.codec];
+    const type = codec ? `${audio.mimeType}; codecs="${codec}"` : audio.mimeType;
+    metadata.formatSupported = document.createElement('audio').canPlayType(type) !== '';
+  }
+  return metadata;
+}
+
+export interface ChatOptions {
+  model?: string;
+  webSearch?: boolean;
+  signal?: AbortSignal;
+  token?: string;                 // Signed-in users let Marin pick outfits from their wardrobe
+  context?: ChatRequestContext;   // Location and preferences for those picks
+}
+
+/**
+ * Thrown for rejected requests; `fields` lists what the server found invalid
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly fields: string[] = []
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Ask Marin to reply to the conversation so far. System and deleted messages are
+ * not part of the conversation and are left out.
+ */
+export async function sendChatMessage(
+  messages: Message[],
+  options: ChatOptions = {}
+): Promise<ChatResponse> {
+  const request: ChatRequestInput = {
+    messages: messages
+      .filter((message) => message.type !== MessageType.SYSTEM && !message.deletedAt)
+      .map((message) => ({ role: SENDER_ROLES[message.sender], text: message.content })),
+    model: options.model,
+    webSearch: options.webSearch ?? false,
+    context: options.context
+  };
+
+  const response = await fetch(getApiUrl('/api/chat'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {})
+    },
+    body: JSON.stringify(chatRequestSchema.parse(request)),
+    signal: options.signal
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(
+      body?.error ?? `HTTP error! status: ${response.status}`,
+      response.status,
+      body?.code,
+      body?.fields
+    );
+  }
+
+  return chatResponseSchema.parse(body);
+}
+
+// Sessions travel as JSON, so dates arrive as ISO strings. Responses are checked against the
+// schemas shared with the backend; type, status, metadata and context hold the same values as the
+// app's own types, only typed more loosely on the wire.
+function reviveMessage(message: SessionMessage): Message {
+  return {
+    ...message,
+    type: message.type as MessageType,
+    status: message.status as MessageStatus | undefined,
+    metadata: message.metadata as MessageMetadata | undefined,
+    timestamp: new Date(message.timestamp),
+    deletedAt: message.deletedAt ? new Date(message.deletedAt) : undefined
+  };
+}
+
+function reviveSession(session: StoredSession): ChatSession {
+  return {
+    ...session,
+    messages: session.messages.map(reviveMessage),
+    context: session.context as ChatContext,
+    createdAt: new Date(session.createdAt),
+    lastActivity: new Date(session.lastActivity)
+  };
+}
+
+// Blobs and blob: URLs only exist in this tab, so they are not sent to the server
+function serializeSession(session: ChatSession) {
+  return {
+    ...session,
+    messages: session.messages.map((message) => {
+      if (!message.metadata) return message;
+      const { audioBlob, ...metadata } = message.metadata;
+      for (const key of ['audioUrl', 'imageUrl'] as const) {
+        if (metadata[key]?.startsWith('blob:')) delete metadata[key];
+      }
+      return { ...message, metadata };
+    })
+  };
+}
+
+// Sessions belong to the signed-in user, so every call carries their token
+async function sessionRequest(path: string, token: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(getApiUrl(`/api/sessions${path}`), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `HTTP error! status: ${response.status}`);
+  }
+
+  return response;
+}
+
+/**
+ * List the signed-in user's saved chat sessions, most recently active first
+ */
+export async function fetchChatSessions(token: string, cursor?: string): Promise<ChatSessionListResponse> {
+  const params = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+  const data = sessionListResponseSchema.parse(await (await sessionRequest(params, token)).json());
+  return {
+    sessions: data.sessions.map((summary): ChatSessionSummary => ({
+      ...summary,
+      createdAt: new Date(summary.createdAt),
+      lastActivity: new Date(summary.lastActivity)
+    })),
+    nextCursor: data.nextCursor
+  };
+}
+
+/**
+ * Load a chat session with its full message history
+ */
+export async function fetchChatSession(token: string, sessionId: string): Promise<ChatSession> {
+  const response = await sessionRequest(`/${encodeURIComponent(sessionId)}`, token);
+  return reviveSession(chatSessionSchema.parse(await response.json()));
+}
+
+/**
+ * Create or replace a chat session on the server
+ */
+export async function saveChatSession(token: string, session: ChatSession): Promise<ChatSession> {
+  const response = await sessionRequest(`/${encodeURIComponent(session.id)}`, token, {
+    method: 'PUT',
+    body: JSON.stringify(serializeSession(session))
+  });
+  return reviveSession(chatSessionSchema.parse(await response.json()));
+}
+
+/**
+ * Delete a chat session and its messages
+ */
+export async function deleteChatSession(token: string, sessionId: string): Promise<void> {
+  await sessionRequest(`/${encodeURIComponent(sessionId)}`, token, { method: 'DELETE' });
+}
+
+/**
+ * Page backwards through a session's messages (for infinite scroll)
+ */
+export async function fetchSessionMessages(
+  token: string,
+  sessionId: string,
+  cursor?: string,
+  limit: number = 50
+): Promise<SessionMessagesResponse> {
+  const params = new URLSearchParams({ limit: limit.toString() });
+  if (cursor) {
+    params.append('cursor', cursor);
+  }
+
+  const response = await sessionRequest(`/${encodeURIComponent(sessionId)}/messages?${params.toString()}`, token);
+  const data = sessionMessagesResponseSchema.parse(await response.json());
+  return {
+    messages: data.messages.map(reviveMessage),
+    nextCursor: data.nextCursor
+  };
+}
+
+async function authRequest(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(getApiUrl(`/api/auth${path}`), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `HTTP error! status: ${response.status}`);
+  }
+
+  return response;
+}
+
+/**
+ * Create an account and start a session
+ */
+export async function signUp(username: string, password: string): Promise<AuthResponse> {
+  const response = await authRequest('/signup', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+  return response.json();
+}
+
+/**
+ * Sign in to an existing account
+ */
+export async function signIn(username: string, password: string): Promise<AuthResponse> {
+  const response = await authRequest('/signin', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+  return response.json();
+}
+
+/**
+ * End the session (clears the server cookie; the caller forgets the token)
+ */
+export async function signOut(): Promise<void> {
+  await authRequest('/signout', { method: 'POST' });
+}
+
+/**
+ * Resolve a stored token to its user, rejecting if the token is no longer valid
+ */
+export async function fetchCurrentUser(token: string): Promise<AuthUser> {
+  const response = await authRequest('/me', {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  return (await response.json()).user;
+}
+
+/**
+ * WebSocket URL for the chat server. Browsers cannot send headers on the upgrade,
+ * so the session token travels as a query parameter.
+ */
+export function getChatWebSocketUrl(token: string, room?: string): string {
+  const url = new URL(getApiUrl('/chat'));
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('token', token);
+  if (room) {
+    url.searchParams.set('room', room);
+  }
+  return url.toString();
+}
+
+async function authorizedRequest(path: string, token: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(getApiUrl(path), {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+      ...init?.headers
+    }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(
+      body?.error ?? `HTTP error! status: ${response.status}`,
+      response.status,
+      body?.code,
+      body?.fields
+    );
+  }
+
+  return response;
+}
+
+/**
+ * List the signed-in user's clothes, newest first
+ */
+export async function fetchWardrobe(
+  token: string,
+  filters: WardrobeFilters = {},
+  cursor?: string
+): Promise<WardrobeListResponse> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.append(key, value);
+  }
+  if (cursor) {
+    params.append('cursor', cursor);
+  }
+
+  const query = params.toString();
+  const response = await authorizedRequest(`/api/wardrobe${query ? `?${query}` : ''}`, token);
+  return response.json();
+}
+
+/**
+ * Add an item to the wardrobe
+ */
+export async function createWardrobeItem(token: string, item: NewWardrobeItemInput): Promise<WardrobeItem> {
+  const response = await authorizedRequest('/api/wardrobe', token, {
+    method: 'POST',
+    body: JSON.stringify(item)
+  });
+  return response.json();
+}
+
+/**
+ * Change some fields of a wardrobe item; null clears an optional field
+ */
+export async function updateWardrobeItem(
+  token: string,
+  id: string,
+  changes: WardrobeItemUpdate
+): Promise<WardrobeItem> {
+  const response = await authorizedRequest(`/api/wardrobe/${encodeURIComponent(id)}`, token, {
+    method: 'PATCH',
+    body: JSON.stringify(changes)
+  });
+  return response.json();
+}
+
+/**
+ * Remove an item from the wardrobe
+ */
+export async function deleteWardrobeItem(token: string, id: string): Promise<void> {
+  await authorizedRequest(`/api/wardrobe/${encodeURIComponent(id)}`, token, { method: 'DELETE' });
+}
+
+/**
+ * The signed-in user's fashion preferences and whether they went through onboarding
+ */
+export async function fetchPreferences(token: string): Promise<PreferencesResponse> {
+  const response = await authorizedRequest('/api/preferences', token);
+  return response.json();
+}
+
+/**
+ * Replace the signed-in user's preferences; pass `onboarding` to finish or skip onboarding
+ */
+export async function savePreferences(token: string, update: PreferencesUpdateInput): Promise<PreferencesResponse> {
+  const response = await authorizedRequest('/api/preferences', token, {
+    method: 'PUT',
+    body: JSON.stringify(update)
+  });
+  return response.json();
+}
+
+/**
+ * Rank outfits from the signed-in user's wardrobe for today's weather, with a
+ * scored explanation per factor
+ */
+export async function recommendOutfits(
+  token: string,
+  request: RecommendationRequestInput = {}
+): Promise<RecommendationResponse> {
+  const response = await authorizedRequest('/api/outfits/recommend', token, {
+    method: 'POST',
+    body: JSON.stringify(request)
+  });
+  return response.json();
+}
+
+/**
+ * Score how well the colors of some clothes go together, e.g. recognized items from a
+ * photo. Favorite colors in `preferences` raise the score.
+ */
+export async function scoreOutfitColors(request: ColorScoreRequestInput): Promise<ColorHarmony> {
+  const response = await fetch(getApiUrl('/api/outfits/score'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(
+      body?.error ?? `HTTP error! status: ${response.status}`,
+      response.status,
+      body?.code,
+      body?.fields
+    );
+  }
+
+  return body;
+}
+
 /**
  * Generic retry wrapper for API calls with exponential backoff
  */
@@ -1,3 +1,9 @@
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+// The repository root, so code in ../shared (schemas shared with the backend) can be compiled
+const repoRoot = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   typescript: {
@@ -6,7 +12,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
- 
+  turbopack: {
+    root: repoRoot,
+  },
+  outputFileTracingRoot: repoRoot,
 }
 
-export default nextConfig
\ No newline at end of file
+export default nextConfig
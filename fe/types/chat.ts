@@ -5,6 +5,11 @@
  * including messages, sessions, context, and metadata for multi-modal communication.
  */
 
+import type { UserPreferences } from '@shared/preferences';
+import type { WardrobeItem } from '@shared/wardrobe';
+
+export type { UserPreferences };
+
 export enum MessageType {
   TEXT = 'text',
   VOICE = 'voice',
@@ -27,6 +32,22 @@ export interface ClothingItem {
   category: string;          // Clothing category
   color?: string;           // Detected primary color
   style?: string;           // Style attributes
+  box?: BoundingBox;        // Where the item is in the photo, when the recognizer located it
+  palette?: PaletteColor[]; // Dominant colors inside the box, largest first
+}
+
+export interface BoundingBox {
+  x: number;                 // Left edge, as a fraction of the image width
+  y: number;                 // Top edge, as a fraction of the image height
+  width: number;             // Fractions of the image width and height
+  height: number;
+}
+
+export interface PaletteColor {
+  hex: string;               // e.g. "#1f2a44"
+  name: string;              // Nearest named color (English)
+  nameJa: string;            // Nearest named color (Japanese)
+  proportion: number;        // Share of the garment's pixels (0-1)
 }
 
 export interface MessageMetadata {
@@ -88,27 +109,11 @@ export interface LocationData {
   };
 }
 
-export interface UserPreferences {
-  preferredStyle?: string[];        // Fashion style preferences
-  favoriteColors?: string[];        // Preferred color palette
-  sizeInfo?: {                     // Size information
-    tops?: string;
-    bottoms?: string;
-    shoes?: string;
-  };
-  budget?: {                       // Budget preferences
-    min?: number;
-    max?: number;
-    currency?: string;
-  };
-  occasions?: string[];            // Occasions they dress for
-}
-
 export interface ChatContext {
   weather?: WeatherData;            // Current weather context
   location?: LocationData;          // User location for recommendations
-  userPreferences?: UserPreferences; // Fashion preferences and style
-  wardrobe?: ClothingItem[];        // User's uploaded clothing items
+  userPreferences?: UserPreferences; // Fashion preferences and style (GET /api/preferences)
+  wardrobe?: WardrobeItem[];        // User's saved clothes (GET /api/wardrobe)
 }
 
 export interface ChatSession {
@@ -119,6 +124,14 @@ export interface ChatSession {
   context: ChatContext;             // Conversation context
 }
 
+export interface ChatSessionSummary {
+  id: string;                       // Session identifier
+  createdAt: Date;                  // Session start time
+  lastActivity: Date;               // Last message timestamp
+  messageCount: number;             // Number of stored messages
+  preview?: string;                 // Latest message text, truncated
+}
+
 // Component prop interfaces
 export interface ChatContainerProps {
   initialMessages?: Message[];      // Pre-loaded message history
@@ -225,13 +238,16 @@ export interface UseImageUploadReturn {
 }
 
 export interface UseChatHistoryReturn {
-  sessions: ChatSession[];          // Available chat sessions
+  sessions: ChatSession[];          // Sessions loaded or saved in this tab
+  summaries: ChatSessionSummary[];  // All saved sessions on the server
   currentSession: ChatSession | null; // Active session
   saveSession: (session: ChatSession) => Promise<void>;
   loadSession: (sessionId: string) => Promise<ChatSession>;
   deleteSession: (sessionId: string) => Promise<void>;
   createNewSession: () => ChatSession;
+  refreshSessions: () => Promise<void>; // Re-fetch session summaries
   isLoading: boolean;               // History operations in progress
+  error: string | null;            // Latest history error
 }
 
 // Configuration interfaces
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+// Wire schemas for POST /api/auth/signup and /api/auth/signin. Account rules (username format,
+// password length) are checked by the server on sign-up, so sign-in works for any stored account.
+
+export const credentialsSchema = z.object({
+    username: z.string().trim().min(1),
+    password: z.string().min(1),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
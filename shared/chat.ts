@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { userPreferencesSchema } from "./preferences";
+import { coordinatesSchema } from "./weather";
+
+// Wire schemas for POST /api/chat, imported by the backend handler and the frontend client
+
+export const chatRoleSchema = z.enum(["user", "assistant"]);
+
+// Canonical message shape: the text lives in `text`
+export const chatMessageSchema = z.object({
+    role: chatRoleSchema,
+    text: z.string(),
+});
+
+// Message shape sent by the AI SDK's useChat: text lives in typed parts, and system messages may appear
+export const uiMessageSchema = z.object({
+    id: z.string().optional(),
+    role: z.enum(["user", "assistant", "system"]),
+    parts: z.array(z.object({
+        type: z.string(),
+        text: z.string().optional(),
+    }).passthrough()),
+});
+
+// What the client knows about the user, for tools such as outfit recommendations
+export const chatRequestContextSchema = z.object({
+    location: coordinatesSchema.optional(),
+    preferences: userPreferencesSchema.optional(),
+});
+
+export const chatRequestSchema = z.object({
+    messages: z.array(z.union([chatMessageSchema, uiMessageSchema])).min(1),
+    model: z.string().min(1).optional(),
+    webSearch: z.boolean().default(false),
+    stream: z.boolean().optional(),
+    context: chatRequestContextSchema.optional(),
+});
+
+export const chatResponseSchema = z.object({
+    role: z.literal("assistant"),
+    content: z.string(),
+});
+
+export type ChatRole = z.infer<typeof chatRoleSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type UIMessageInput = z.infer<typeof uiMessageSchema>;
+export type ChatRequestContext = z.infer<typeof chatRequestContextSchema>;
+export type ChatRequestInput = z.input<typeof chatRequestSchema>;
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+
+// The frontend names the assistant "marin"; the API speaks in chat roles
+export const SENDER_ROLES = { user: "user", marin: "assistant" } as const satisfies Record<string, ChatRole>;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+// Wire schemas for POST /api/image/upload
+
+export const paletteColorSchema = z.object({
+    hex: z.string().regex(/^#[0-9a-f]{6}$/),
+    name: z.string(),                       // Nearest named color, e.g. "navy"
+    nameJa: z.string(),                     // e.g. "ネイビー"
+    proportion: z.number().min(0).max(1),   // Share of the garment's pixels
+});
+
+// Where an item sits in the photo, as fractions of the image's width and height from the top-left
+// corner. Boxes reaching past the edge are cut off there.
+export const boundingBoxSchema = z.object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().gt(0).max(1),
+    height: z.number().gt(0).max(1),
+});
+
+export const clothingItemSchema = z.object({
+    name: z.string(),                       // e.g. "denim jacket"
+    category: z.string(),                   // e.g. "outerwear"
+    confidence: z.number().min(0).max(1),
+    color: z.string().optional(),           // Name of the dominant color
+    style: z.string().optional(),
+    box: boundingBoxSchema.optional(),      // Set by recognizers that locate items
+    palette: z.array(paletteColorSchema).optional(),    // Dominant colors inside `box`, largest first
+});
+
+export const imageUploadResponseSchema = z.object({
+    success: z.boolean(),
+    recognitionResults: z.array(clothingItemSchema),
+    response: z.string(),                   // Marin's reply about the recognized items
+    palette: z.array(paletteColorSchema).optional(),    // Whole-photo colors, when some item has no box
+    error: z.string().optional(),
+    messageId: z.string().optional(),
+});
+
+export type PaletteColor = z.infer<typeof paletteColorSchema>;
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+export type ClothingItem = z.infer<typeof clothingItemSchema>;
+export type ImageUploadResponse = z.infer<typeof imageUploadResponseSchema>;
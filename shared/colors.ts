@@ -0,0 +1,39 @@
+// Named colors shared by the backend's palette extraction and the frontend's swatches
+
+export interface NamedColor {
+    name: string;
+    nameJa: string;
+    hex: string;
+}
+
+// Superset of the recognizers' CLOTHING_COLORS, so names stay comparable
+export const NAMED_COLORS: ReadonlyArray<NamedColor> = [
+    { name: "black", nameJa: "黒", hex: "#1c1c1c" },
+    { name: "charcoal", nameJa: "チャコール", hex: "#404040" },
+    { name: "gray", nameJa: "グレー", hex: "#8a8a8a" },
+    { name: "white", nameJa: "白", hex: "#f5f5f5" },
+    { name: "cream", nameJa: "クリーム", hex: "#f3e9cf" },
+    { name: "beige", nameJa: "ベージュ", hex: "#d8c3a0" },
+    { name: "khaki", nameJa: "カーキ", hex: "#8f8559" },
+    { name: "brown", nameJa: "茶色", hex: "#6e4a2e" },
+    { name: "navy", nameJa: "ネイビー", hex: "#1f2a44" },
+    { name: "blue", nameJa: "青", hex: "#2f5fb3" },
+    { name: "light blue", nameJa: "水色", hex: "#9cc3e6" },
+    { name: "teal", nameJa: "ティール", hex: "#1f7a7a" },
+    { name: "green", nameJa: "緑", hex: "#3a7d44" },
+    { name: "olive", nameJa: "オリーブ", hex: "#6b6b2a" },
+    { name: "yellow", nameJa: "黄色", hex: "#e8c830" },
+    { name: "mustard", nameJa: "マスタード", hex: "#c9a227" },
+    { name: "orange", nameJa: "オレンジ", hex: "#e87a2e" },
+    { name: "red", nameJa: "赤", hex: "#c8232c" },
+    { name: "burgundy", nameJa: "ボルドー", hex: "#6d1a2a" },
+    { name: "pink", nameJa: "ピンク", hex: "#f0a0b8" },
+    { name: "purple", nameJa: "紫", hex: "#6a3d8f" },
+    { name: "lavender", nameJa: "ラベンダー", hex: "#b8a6d9" },
+];
+
+// Look up a named color, ignoring case
+export function findNamedColor(name: string): NamedColor | undefined {
+    const key = name.trim().toLowerCase();
+    return NAMED_COLORS.find(color => color.name === key);
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { userPreferencesSchema } from "./preferences";
+import { wardrobeItemSchema } from "./wardrobe";
+import { coordinatesSchema } from "./weather";
+
+// Wire schemas for POST /api/outfits/recommend and POST /api/outfits/score
+
+export const OCCASIONS = ["casual", "work", "date", "party", "formal", "sport", "outdoor"] as const;
+export const OUTFIT_SLOTS = ["top", "bottom", "dress", "outer", "shoes", "accessory"] as const;
+export const OUTFIT_FACTORS = ["temperature", "precipitation", "color", "style", "occasion"] as const;
+
+export const HARMONY_SCHEMES = [
+    "neutral",              // Only neutrals
+    "neutral-anchor",       // One accent hue grounded by neutrals
+    "monochrome",           // Shades of one hue
+    "analogous",            // Neighboring hues
+    "complementary",        // Opposite hues
+    "triadic",              // Three hues evenly spaced
+    "pastel",               // Soft light colors, which go together whatever their hues
+    "clash",
+    "unknown",              // No color could be read
+] as const;
+
+export const occasionSchema = z.enum(OCCASIONS);
+export const outfitSlotSchema = z.enum(OUTFIT_SLOTS);
+export const outfitFactorNameSchema = z.enum(OUTFIT_FACTORS);
+
+export const recommendationRequestSchema = z.object({
+    occasion: occasionSchema.optional(),            // Defaults to the first preferred occasion, then "casual"
+    preferences: userPreferencesSchema.optional(),
+    location: coordinatesSchema.optional(),         // Weather location; the server default when omitted
+    limit: z.number().int().min(1).max(10).default(3),
+});
+
+export const outfitFactorSchema = z.object({
+    factor: outfitFactorNameSchema,
+    score: z.number().min(0).max(1),
+    weight: z.number().min(0).max(1),               // Share of the total score
+    explanation: z.string(),
+});
+
+export const recommendedOutfitSchema = z.object({
+    items: z.array(z.object({
+        slot: outfitSlotSchema,
+        item: wardrobeItemSchema,
+    })),
+    score: z.number().min(0).max(1),                // Weighted sum of the factor scores
+    factors: z.array(outfitFactorSchema),
+});
+
+export const recommendationResponseSchema = z.object({
+    outfits: z.array(recommendedOutfitSchema),      // Best first; empty when the wardrobe can't make an outfit
+    occasion: occasionSchema,
+    weather: z.object({
+        temperature: z.number(),
+        condition: z.string(),
+        precipitation: z.number().min(0).max(1),
+        location: z.string(),                       // e.g. "Tokyo, Japan"
+    }).nullable(),                                  // null when the weather service was unavailable
+});
+
+export const harmonySchemeSchema = z.enum(HARMONY_SCHEMES);
+
+// Items are read like ClothingItem: only `color` (a name or #rrggbb) matters
+export const colorScoreRequestSchema = z.object({
+    items: z.array(z.object({
+        name: z.string().optional(),
+        color: z.string().trim().min(1).max(32),
+    }).passthrough()).min(1).max(12),
+    preferences: userPreferencesSchema.pick({ favoriteColors: true }).optional(),
+});
+
+export const colorHarmonySchema = z.object({
+    score: z.number().min(0).max(1),
+    scheme: harmonySchemeSchema,
+    explanation: z.string(),
+    colors: z.array(z.object({
+        input: z.string(),                  // As given
+        hex: z.string(),
+        name: z.string(),                   // Nearest named color
+        neutral: z.boolean(),
+        hue: z.number().nullable(),         // Degrees on the red-yellow-blue color wheel; null for neutrals
+    })),
+    clashes: z.array(z.tuple([z.string(), z.string()])),   // Pairs of inputs that fight
+    favorites: z.array(z.string()),         // Favorite colors the combination uses
+    unknown: z.array(z.string()),           // Inputs that aren't a known name or hex value
+});
+
+export type Occasion = z.infer<typeof occasionSchema>;
+export type OutfitSlot = z.infer<typeof outfitSlotSchema>;
+export type OutfitFactorName = z.infer<typeof outfitFactorNameSchema>;
+export type RecommendationRequestInput = z.input<typeof recommendationRequestSchema>;
+export type RecommendationRequest = z.infer<typeof recommendationRequestSchema>;
+export type OutfitFactor = z.infer<typeof outfitFactorSchema>;
+export type RecommendedOutfit = z.infer<typeof recommendedOutfitSchema>;
+export type RecommendationResponse = z.infer<typeof recommendationResponseSchema>;
+export type HarmonyScheme = z.infer<typeof harmonySchemeSchema>;
+export type ColorScoreRequestInput = z.input<typeof colorScoreRequestSchema>;
+export type ColorScoreRequest = z.infer<typeof colorScoreRequestSchema>;
+export type ColorHarmony = z.infer<typeof colorHarmonySchema>;
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Fashion preferences, stored per user by /api/preferences and given to the chat provider
+
+// Whether the user finished or skipped the onboarding wizard that collects them
+export const ONBOARDING_STATUSES = ["pending", "completed", "skipped"] as const;
+
+const label = z.string().trim().min(1).max(32);
+
+export const userPreferencesSchema = z.object({
+    preferredStyle: z.array(label).max(10).optional(),     // e.g. ["kawaii", "casual"]
+    favoriteColors: z.array(label).max(10).optional(),     // Color names or #rrggbb
+    sizeInfo: z.object({
+        tops: label.optional(),
+        bottoms: label.optional(),
+        shoes: label.optional(),
+    }).optional(),
+    budget: z.object({
+        min: z.number().nonnegative().optional(),
+        max: z.number().nonnegative().optional(),
+        currency: z.string().regex(/^[A-Z]{3}$/).optional(),
+    }).refine(budget => budget.min === undefined || budget.max === undefined || budget.min <= budget.max, {
+        message: "min must not exceed max",
+        path: ["min"],
+    }).optional(),
+    occasions: z.array(label).max(10).optional(),          // e.g. ["work", "date"]
+});
+
+export const onboardingStatusSchema = z.enum(ONBOARDING_STATUSES);
+
+// PUT /api/preferences replaces the stored preferences; `onboarding` is kept when omitted
+export const preferencesUpdateSchema = z.object({
+    preferences: userPreferencesSchema,
+    onboarding: onboardingStatusSchema.exclude(["pending"]).optional(),
+});
+
+// GET and PUT /api/preferences
+export const preferencesResponseSchema = z.object({
+    preferences: userPreferencesSchema,
+    onboarding: onboardingStatusSchema,
+    updatedAt: z.string().nullable(),       // null until first saved
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+export type OnboardingStatus = z.infer<typeof onboardingStatusSchema>;
+export type PreferencesUpdateInput = z.input<typeof preferencesUpdateSchema>;
+export type PreferencesUpdate = z.infer<typeof preferencesUpdateSchema>;
+export type PreferencesResponse = z.infer<typeof preferencesResponseSchema>;
@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+// Wire schemas for the /api/sessions endpoints: chat histories saved by the frontend
+
+export const SESSION_SENDERS = ["user", "marin"] as const;
+export const SESSION_MESSAGE_TYPES = ["text", "voice", "image", "system"] as const;
+export const SESSION_LANGS = ["JP", "EN"] as const;
+
+// Any date string Date.parse reads, e.g. from toISOString()
+const timestampSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+export const sessionMessageSchema = z.object({
+    id: z.string().min(1),
+    content: z.string(),
+    sender: z.enum(SESSION_SENDERS),
+    timestamp: timestampSchema,
+    lang: z.enum(SESSION_LANGS).optional(),
+    type: z.enum(SESSION_MESSAGE_TYPES),
+    metadata: z.record(z.unknown()).optional(),
+    status: z.string().optional(),              // e.g. "sent", "failed"
+    deletedAt: timestampSchema.optional(),
+});
+
+// Message ids are unique within a session; the server keys stored messages by them
+const sessionMessagesSchema = z.array(sessionMessageSchema).superRefine((messages, ctx) => {
+    const seen = new Set<string>();
+    messages.forEach((message, index) => {
+        if (seen.has(message.id)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: "Duplicate message id" });
+        }
+        seen.add(message.id);
+    });
+});
+
+export const chatSessionSchema = z.object({
+    id: z.string().min(1),
+    messages: sessionMessagesSchema,
+    createdAt: timestampSchema,
+    lastActivity: timestampSchema,
+    context: z.record(z.unknown()),
+});
+
+// GET /api/sessions lists sessions without their messages
+export const sessionSummarySchema = z.object({
+    id: z.string().min(1),
+    createdAt: timestampSchema,
+    lastActivity: timestampSchema,
+    messageCount: z.number().int().min(0),
+    preview: z.string().optional(),             // Latest message text, truncated
+});
+
+export const sessionListResponseSchema = z.object({
+    sessions: z.array(sessionSummarySchema),
+    nextCursor: z.string().nullable(),
+});
+
+// GET /api/sessions/:id/messages
+export const sessionMessagesResponseSchema = z.object({
+    messages: z.array(sessionMessageSchema),
+    nextCursor: z.string().nullable(),
+});
+
+// POST /api/sessions; every field is optional, and the server picks the id when none is given
+export const newSessionSchema = z.object({
+    id: z.string().min(1).optional(),
+    messages: sessionMessagesSchema.default([]),
+    context: z.record(z.unknown()).optional(),
+});
+
+// PUT /api/sessions/:id replaces the session; `id`, when given, must match the path.
+// The server keeps the original createdAt and defaults lastActivity to now.
+export const sessionUpdateSchema = z.object({
+    id: z.string().min(1).optional(),
+    messages: sessionMessagesSchema.default([]),
+    createdAt: timestampSchema.optional(),
+    lastActivity: timestampSchema.optional(),
+    context: z.record(z.unknown()).default({}),
+});
+
+export type SessionMessage = z.infer<typeof sessionMessageSchema>;
+export type ChatSession = z.infer<typeof chatSessionSchema>;
+export type ChatSessionSummary = z.infer<typeof sessionSummarySchema>;
+export type ChatSessionListResponse = z.infer<typeof sessionListResponseSchema>;
+export type SessionMessagesResponse = z.infer<typeof sessionMessagesResponseSchema>;
+export type NewSessionInput = z.input<typeof newSessionSchema>;
+export type SessionUpdateInput = z.input<typeof sessionUpdateSchema>;
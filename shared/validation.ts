@@ -0,0 +1,50 @@
+import type { ZodError, ZodIssue, ZodType, ZodTypeDef } from "zod";
+
+// Turn zod errors into the field lists used in 400 error bodies
+
+export interface ValidationIssue {
+    path: string;       // e.g. "messages[0].text"; empty for the body itself
+    message: string;
+}
+
+// ["messages", 0, "text"] -> "messages[0].text"
+export function formatPath(path: Array<string | number>): string {
+    return path.reduce<string>((result, segment) =>
+        typeof segment === "number" ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment, "");
+}
+
+function flatten(issue: ZodIssue): ZodIssue[] {
+    // For unions, report the branch that came closest to matching instead of a bare "Invalid input"
+    if (issue.code === "invalid_union" && issue.unionErrors.length > 0) {
+        const closest = [...issue.unionErrors].sort((a, b) => a.issues.length - b.issues.length)[0]!;
+        return closest.issues.flatMap(flatten);
+    }
+    return [issue];
+}
+
+export function describeIssues(error: ZodError): ValidationIssue[] {
+    return error.issues.flatMap(flatten).map(issue => ({
+        path: formatPath(issue.path),
+        message: issue.message,
+    }));
+}
+
+// Distinct offending field paths, in the order they were found
+export function invalidFields(error: ZodError): string[] {
+    return [...new Set(describeIssues(error).map(issue => issue.path || "body"))];
+}
+
+// Any schema producing T, whatever its input type
+export type Schema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+export type ValidationResult<T> =
+    | { success: true; data: T }
+    | { success: false; fields: string[]; issues: ValidationIssue[] };
+
+// safeParse with the error already flattened into fields and issues
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+    const result = schema.safeParse(value);
+    return result.success
+        ? { success: true, data: result.data }
+        : { success: false, fields: invalidFields(result.error), issues: describeIssues(result.error) };
+}
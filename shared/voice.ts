@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+// Wire schemas for POST /api/voice/upload and POST /api/transcribe
+
+// What the uploaded file's container says about it, read by the server rather than trusted from the client
+export const audioInfoSchema = z.object({
+    mimeType: z.string(),                   // e.g. "audio/webm"
+    codec: z.string(),                      // e.g. "opus", "aac", "mp3", "pcm"
+    duration: z.number().nullable(),        // Seconds; null when the file does not allow measuring it
+    sampleRate: z.number().nullable(),      // Hz
+    channels: z.number().nullable(),
+});
+
+export const voiceUploadResponseSchema = z.object({
+    // True when the audio was transcribed, even if the reply then failed
+    success: z.boolean(),
+    transcription: z.string(),
+    response: z.string(),                   // Marin's reply; empty when replyError is set
+    error: z.string().optional(),           // Why transcription failed
+    replyError: z.string().optional(),      // Why the reply failed after a successful transcription
+    language: z.string().optional(),
+    duration: z.number().optional(),
+    messageId: z.string().optional(),
+    sessionId: z.string().optional(),
+    audio: audioInfoSchema.optional(),      // Set whenever the upload passed validation
+    waveform: z.array(z.number().min(0).max(1)).optional(),     // Peaks for drawing; absent when the audio could not be decoded
+});
+
+export type AudioInfo = z.infer<typeof audioInfoSchema>;
+export type VoiceUploadResponse = z.infer<typeof voiceUploadResponseSchema>;
@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+// Wire schemas for the /api/wardrobe endpoints
+
+export const WARDROBE_CATEGORIES = ["tops", "outerwear", "bottoms", "dresses", "shoes", "accessories"] as const;
+export const SEASONS = ["spring", "summer", "autumn", "winter"] as const;
+
+export const wardrobeCategorySchema = z.enum(WARDROBE_CATEGORIES);
+export const seasonSchema = z.enum(SEASONS);
+
+// Calendar date such as "2024-09-30"
+const isoDateSchema = z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .refine(value => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+const fields = {
+    name: z.string().trim().min(1).max(100),               // e.g. "navy pleated skirt"
+    category: wardrobeCategorySchema,
+    imageUrl: z.string().min(1).max(2048),                  // Where the photo is stored
+    colors: z.array(z.string().trim().min(1).max(32)).max(8),   // Color names or #rrggbb, main color first
+    seasons: z.array(seasonSchema).transform(seasons => [...new Set(seasons)]),
+    style: z.string().trim().min(1).max(32),
+    purchasePrice: z.number().nonnegative(),
+    currency: z.string().regex(/^[A-Z]{3}$/),               // ISO 4217, e.g. "JPY"
+    purchaseDate: isoDateSchema,
+};
+
+// POST /api/wardrobe
+export const newWardrobeItemSchema = z.object({
+    name: fields.name,
+    category: fields.category,
+    imageUrl: fields.imageUrl.optional(),
+    colors: fields.colors.default([]),
+    seasons: fields.seasons.default([]),
+    style: fields.style.optional(),
+    purchasePrice: fields.purchasePrice.optional(),
+    currency: fields.currency.optional(),
+    purchaseDate: fields.purchaseDate.optional(),
+});
+
+// PATCH /api/wardrobe/:id; null clears an optional field
+export const wardrobeItemUpdateSchema = z.object({
+    name: fields.name.optional(),
+    category: fields.category.optional(),
+    imageUrl: fields.imageUrl.nullable().optional(),
+    colors: fields.colors.optional(),
+    seasons: fields.seasons.optional(),
+    style: fields.style.nullable().optional(),
+    purchasePrice: fields.purchasePrice.nullable().optional(),
+    currency: fields.currency.nullable().optional(),
+    purchaseDate: fields.purchaseDate.nullable().optional(),
+});
+
+export const wardrobeItemSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    category: wardrobeCategorySchema,
+    imageUrl: z.string().optional(),
+    colors: z.array(z.string()),
+    seasons: z.array(seasonSchema),
+    style: z.string().optional(),
+    purchasePrice: z.number().optional(),
+    currency: z.string().optional(),
+    purchaseDate: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+// Query parameters of GET /api/wardrobe
+export const wardrobeFiltersSchema = z.object({
+    category: wardrobeCategorySchema.optional(),
+    season: seasonSchema.optional(),
+    color: z.string().trim().min(1).optional(),
+});
+
+export const wardrobeListResponseSchema = z.object({
+    items: z.array(wardrobeItemSchema),
+    nextCursor: z.string().nullable(),
+});
+
+export type WardrobeCategory = z.infer<typeof wardrobeCategorySchema>;
+export type Season = z.infer<typeof seasonSchema>;
+export type NewWardrobeItemInput = z.input<typeof newWardrobeItemSchema>;
+export type NewWardrobeItem = z.infer<typeof newWardrobeItemSchema>;
+export type WardrobeItemUpdate = z.infer<typeof wardrobeItemUpdateSchema>;
+export type WardrobeItem = z.infer<typeof wardrobeItemSchema>;
+export type WardrobeFilters = z.infer<typeof wardrobeFiltersSchema>;
+export type WardrobeListResponse = z.infer<typeof wardrobeListResponseSchema>;
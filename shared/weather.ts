@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// Wire schemas for GET /api/weather
+
+export const coordinatesSchema = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+});
+
+export const weatherForecastSchema = z.object({
+    date: z.string(),                       // ISO date, e.g. "2025-01-02"
+    temperature: z.number(),                // Daily high in Celsius
+    condition: z.string(),
+    precipitation: z.number().min(0).max(1).optional(),     // Chance of precipitation
+});
+
+export const weatherDataSchema = z.object({
+    temperature: z.number(),                // Current temperature in Celsius
+    condition: z.string(),                  // "sunny", "partly cloudy", "rainy", ...
+    humidity: z.number(),                   // Percent
+    windSpeed: z.number(),                  // km/h
+    location: z.object({
+        city: z.string(),
+        country: z.string(),
+        latitude: z.number(),
+        longitude: z.number(),
+    }),
+    forecast: z.array(weatherForecastSchema),
+    updatedAt: z.string(),                  // When the provider produced this report
+});
+
+export const weatherResponseSchema = z.object({
+    success: z.boolean(),
+    data: weatherDataSchema.optional(),
+    error: z.string().optional(),
+});
+
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+export type WeatherForecastEntry = z.infer<typeof weatherForecastSchema>;
+export type WeatherReport = z.infer<typeof weatherDataSchema>;
+export type WeatherResponse = z.infer<typeof weatherResponseSchema>;